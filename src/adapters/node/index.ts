@@ -1,16 +1,56 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Duplex } from "node:stream";
 
 import { getRequest, setResponse } from "./request";
+import { upgradeWebSocket } from "./websocket";
 import type { Router } from "../../router.js";
+import { getWebSocketSession } from "../../websocket";
+
+function getBase(req: IncomingMessage) {
+	const protocol =
+		req.headers["x-forwarded-proto"] || ((req.socket as any).encrypted ? "https" : "http");
+	return `${protocol}://${req.headers[":authority"] || req.headers.host}`;
+}
 
 export function toNodeHandler(handler: Router["handler"]) {
-	return async (req: IncomingMessage, res: ServerResponse) => {
-		const protocol =
-			req.headers["x-forwarded-proto"] || ((req.socket as any).encrypted ? "https" : "http");
-		const base = `${protocol}://${req.headers[":authority"] || req.headers.host}`;
-		const response = await handler(getRequest({ base, request: req }));
+	const nodeHandler = async (req: IncomingMessage, res: ServerResponse) => {
+		const response = await handler(
+			getRequest({ base: getBase(req), request: req, response: res }),
+		);
 		return setResponse(res, response);
 	};
+	/**
+	 * Handles the `upgrade` event of a `node:http` server, accepting the
+	 * WebSocket connections of WebSocket endpoints
+	 *
+	 * @example
+	 * ```ts
+	 * const handler = toNodeHandler(router.handler);
+	 * const server = createServer(handler);
+	 * server.on("upgrade", handler.upgrade);
+	 * ```
+	 */
+	nodeHandler.upgrade = async (req: IncomingMessage, socket: Duplex, head: Uint8Array) => {
+		let response: Response;
+		try {
+			response = await handler(getRequest({ base: getBase(req), request: req }));
+		} catch {
+			// a rejection in an event listener would crash the process
+			socket.end("HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n", () =>
+				socket.destroy(),
+			);
+			return;
+		}
+		const session = getWebSocketSession(response);
+		if (!session) {
+			socket.end(
+				`HTTP/1.1 ${response.status} ${response.statusText}\r\nConnection: close\r\n\r\n`,
+			);
+			return;
+		}
+		upgradeWebSocket({ request: req, socket, head, session, headers: response.headers });
+	};
+	return nodeHandler;
 }
 
-export { getRequest, setResponse };
+export { getRequest, setResponse, upgradeWebSocket };
@@ -243,6 +243,69 @@ describe("getRequest", () => {
 		// Body should be null for GET requests even if req.body exists
 		expect(request.body).toBeNull();
 	});
+
+	it("should abort the request signal when the request closes early", async () => {
+		const socket = new Socket();
+		const req = new IncomingMessage(socket) as any;
+
+		req.url = "/api/test";
+		req.method = "GET";
+		req.headers = {
+			host: "localhost:3000",
+		};
+
+		const request = getRequest({
+			request: req,
+			base: "http://localhost:3000",
+		});
+		expect(request.signal.aborted).toBe(false);
+
+		req.emit("close");
+		expect(request.signal.aborted).toBe(true);
+	});
+
+	it("should not abort the request signal when the request is complete", async () => {
+		const socket = new Socket();
+		const req = new IncomingMessage(socket) as any;
+
+		req.url = "/api/test";
+		req.method = "GET";
+		req.headers = {
+			host: "localhost:3000",
+		};
+		req.complete = true;
+
+		const request = getRequest({
+			request: req,
+			base: "http://localhost:3000",
+		});
+		req.emit("close");
+		expect(request.signal.aborted).toBe(false);
+	});
+
+	it("should abort the request signal when the response closes before it's sent", async () => {
+		const socket = new Socket();
+		const req = new IncomingMessage(socket) as any;
+
+		req.url = "/api/test";
+		req.method = "GET";
+		req.headers = {
+			host: "localhost:3000",
+		};
+		req.complete = true;
+		const res = new ServerResponse(req);
+
+		const request = getRequest({
+			request: req,
+			response: res,
+			base: "http://localhost:3000",
+		});
+		req.emit("close");
+		expect(request.signal.aborted).toBe(false);
+
+		res.emit("close");
+		expect(request.signal.aborted).toBe(true);
+	});
 });
 
 describe("setResponse", () => {
@@ -88,12 +88,18 @@ function get_raw_body(req: IncomingMessage, body_size_limit?: number) {
 
 export function getRequest({
 	request,
+	response,
 	base,
 	bodySizeLimit,
 }: {
 	base: string;
 	bodySizeLimit?: number;
 	request: IncomingMessage;
+	/**
+	 * The response of the request, to abort the signal when the client
+	 * disconnects before the response is sent
+	 */
+	response?: ServerResponse;
 }) {
 	// In Express sub-routers, `request.url` is relative to the mount path (e.g., '/auth/xxx'),
 	// and `request.baseUrl` holds the mount path (e.g., '/api').
@@ -128,12 +134,27 @@ export function getRequest({
 		}
 	}
 
+	// Abort the request signal if the client closes the connection before the
+	// request is complete, or before the response is sent
+	const controller = new AbortController();
+	request.addListener?.("close", () => {
+		if (!request.complete) {
+			controller.abort();
+		}
+	});
+	response?.once("close", () => {
+		if (!response.writableFinished) {
+			controller.abort();
+		}
+	});
+
 	return new Request(base + fullPath, {
 		// @ts-expect-error
 		duplex: "half",
 		method: request.method,
 		body,
 		headers: request.headers as Record<string, string>,
+		signal: controller.signal,
 	});
 }
 
@@ -0,0 +1,197 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer, request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Duplex } from "node:stream";
+import { z } from "zod";
+import { createEndpoint, createRouter, createWebSocketEndpoint } from "../../index";
+import { toNodeHandler } from "./index";
+
+function encodeClientFrame(opcode: number, payload: Buffer) {
+	const mask = Buffer.from([1, 2, 3, 4]);
+	const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]!));
+	const header =
+		payload.length < 126
+			? Buffer.from([0x80 | opcode, 0x80 | payload.length])
+			: Buffer.from([0x80 | opcode, 0x80 | 126, payload.length >> 8, payload.length & 0xff]);
+	return Buffer.from([...header, ...mask, ...masked]);
+}
+
+function readFrames(socket: Duplex, head: Buffer) {
+	const frames: { opcode: number; payload: Buffer }[] = [];
+	const waiting: (() => void)[] = [];
+	let buffer = Buffer.alloc(0);
+	const onData = (chunk: Buffer) => {
+		buffer = Buffer.from([...buffer, ...chunk]);
+		while (buffer.length >= 2) {
+			let length = buffer[1]! & 0x7f;
+			let offset = 2;
+			if (length === 126) {
+				length = buffer.readUInt16BE(2);
+				offset = 4;
+			}
+			if (buffer.length < offset + length) return;
+			frames.push({
+				opcode: buffer[0]! & 0x0f,
+				payload: buffer.subarray(offset, offset + length),
+			});
+			buffer = buffer.subarray(offset + length);
+			waiting.shift()?.();
+		}
+	};
+	socket.on("data", onData);
+	onData(head);
+	return async () => {
+		if (!frames.length) {
+			await new Promise<void>((resolve) => waiting.push(resolve));
+		}
+		return frames.shift()!;
+	};
+}
+
+describe("node websocket", () => {
+	let server: Server;
+	let port: number;
+	const closed: { code: number; reason: string }[] = [];
+
+	const echo = createWebSocketEndpoint(
+		"/echo/:room",
+		{
+			incoming: z.object({
+				text: z.string(),
+			}),
+		},
+		{
+			open: async (ws, ctx) => {
+				await ws.send({ joined: ctx.params.room });
+			},
+			message: async (ws, message) => {
+				if (message.text === "close") {
+					ws.close(4000, "é".repeat(100));
+					return;
+				}
+				await ws.send({ echo: message.text });
+			},
+			close: (_, details) => {
+				closed.push(details);
+			},
+		},
+	);
+	const router = createRouter({ echo });
+
+	beforeAll(async () => {
+		const handler = toNodeHandler(router.handler);
+		server = createServer(handler);
+		server.on("upgrade", handler.upgrade);
+		await new Promise<void>((resolve) => server.listen(0, resolve));
+		port = (server.address() as AddressInfo).port;
+	});
+
+	afterAll(() => {
+		server.close();
+	});
+
+	const connect = (path: string) => {
+		return new Promise<{
+			status?: number;
+			socket?: Duplex;
+			head?: Buffer;
+			headers?: Record<string, any>;
+		}>((resolve, reject) => {
+			const req = request({
+				port,
+				path,
+				headers: {
+					connection: "Upgrade",
+					upgrade: "websocket",
+					"sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+					"sec-websocket-version": "13",
+				},
+			});
+			req.on("upgrade", (res, socket, head) =>
+				resolve({ socket, head, headers: res.headers }),
+			);
+			req.on("response", (res) => resolve({ status: res.statusCode }));
+			req.on("error", reject);
+			req.end();
+		});
+	};
+
+	it("should complete the handshake and exchange messages", async () => {
+		const { socket, head, headers } = await connect("/echo/general");
+		expect(headers?.["sec-websocket-accept"]).toBe("s3pPLMBiTxaQ9kYGzzhZRbK+xOo=");
+		const next = readFrames(socket!, head!);
+
+		const joined = await next();
+		expect(joined.opcode).toBe(0x1);
+		expect(JSON.parse(joined.payload.toString())).toEqual({ joined: "general" });
+
+		socket!.write(encodeClientFrame(0x1, Buffer.from(JSON.stringify({ text: "hello" }))));
+		expect(JSON.parse((await next()).payload.toString())).toEqual({ echo: "hello" });
+
+		const long = "a".repeat(200);
+		socket!.write(encodeClientFrame(0x1, Buffer.from(JSON.stringify({ text: long }))));
+		expect(JSON.parse((await next()).payload.toString())).toEqual({ echo: long });
+
+		socket!.write(encodeClientFrame(0x9, Buffer.from("ping")));
+		const pong = await next();
+		expect(pong.opcode).toBe(0xa);
+		expect(pong.payload.toString()).toBe("ping");
+
+		const code = Buffer.alloc(2);
+		code.writeUInt16BE(1000);
+		socket!.write(encodeClientFrame(0x8, Buffer.from([...code, ...Buffer.from("bye")])));
+		const close = await next();
+		expect(close.opcode).toBe(0x8);
+		expect(close.payload.readUInt16BE(0)).toBe(1000);
+		await new Promise((resolve) => socket!.on("close", resolve));
+		expect(closed).toContainEqual({ code: 1000, reason: "bye" });
+	});
+
+	it("should close with 1007 when a message doesn't match the schema", async () => {
+		const { socket, head } = await connect("/echo/general");
+		const next = readFrames(socket!, head!);
+		await next();
+		socket!.write(encodeClientFrame(0x1, Buffer.from(JSON.stringify({ text: 1 }))));
+		const close = await next();
+		expect(close.opcode).toBe(0x8);
+		expect(close.payload.readUInt16BE(0)).toBe(1007);
+		socket!.destroy();
+	});
+
+	it("should truncate long close reasons", async () => {
+		const { socket, head } = await connect("/echo/general");
+		const next = readFrames(socket!, head!);
+		await next();
+		socket!.write(encodeClientFrame(0x1, Buffer.from(JSON.stringify({ text: "close" }))));
+		const close = await next();
+		expect(close.opcode).toBe(0x8);
+		expect(close.payload.length).toBeLessThanOrEqual(125);
+		expect(close.payload.readUInt16BE(0)).toBe(4000);
+		expect(close.payload.subarray(2).toString()).toBe("é".repeat(61));
+		socket!.destroy();
+	});
+
+	it("should reject upgrades to routes that aren't WebSocket endpoints", async () => {
+		const { status } = await connect("/not-found");
+		expect(status).toBe(404);
+	});
+
+	it("should answer with a 500 when the handler throws", async () => {
+		const fails = createEndpoint("/echo/:room", { method: "GET" }, async () => {
+			throw new Error("boom");
+		});
+		const handler = toNodeHandler(createRouter({ fails }, { throwError: true }).handler);
+		const failing = createServer(handler);
+		failing.on("upgrade", handler.upgrade);
+		await new Promise<void>((resolve) => failing.listen(0, resolve));
+		const defaultPort = port;
+		port = (failing.address() as AddressInfo).port;
+		try {
+			const { status } = await connect("/echo/general");
+			expect(status).toBe(500);
+		} finally {
+			port = defaultPort;
+			failing.close();
+		}
+	});
+});
@@ -0,0 +1,230 @@
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import type { WebSocketPeer, WebSocketSession } from "../../websocket";
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const OPCODE = {
+	CONTINUATION: 0x0,
+	TEXT: 0x1,
+	BINARY: 0x2,
+	CLOSE: 0x8,
+	PING: 0x9,
+	PONG: 0xa,
+} as const;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function concat(chunks: Uint8Array[]) {
+	const result = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return result;
+}
+
+function encodeFrame(opcode: number, payload: Uint8Array) {
+	const length = payload.length;
+	const headerLength = length < 126 ? 2 : length < 65536 ? 4 : 10;
+	const frame = new Uint8Array(headerLength + length);
+	const view = new DataView(frame.buffer);
+	frame[0] = 0x80 | opcode;
+	if (length < 126) {
+		frame[1] = length;
+	} else if (length < 65536) {
+		frame[1] = 126;
+		view.setUint16(2, length);
+	} else {
+		frame[1] = 127;
+		view.setBigUint64(2, BigInt(length));
+	}
+	frame.set(payload, headerLength);
+	return frame;
+}
+
+/**
+ * Encode a close frame, with the reason truncated to the 123 bytes allowed in
+ * a control frame after the code
+ */
+function encodeClose(code: number, reason: string) {
+	let encodedReason = encoder.encode(reason);
+	if (encodedReason.length > 123) {
+		let end = 123;
+		// don't cut a character in the middle of its continuation bytes
+		while (end > 0 && (encodedReason[end]! & 0xc0) === 0x80) end--;
+		encodedReason = encodedReason.subarray(0, end);
+	}
+	const payload = new Uint8Array(2 + encodedReason.length);
+	new DataView(payload.buffer).setUint16(0, code);
+	payload.set(encodedReason, 2);
+	return encodeFrame(OPCODE.CLOSE, payload);
+}
+
+/**
+ * Complete the WebSocket handshake on an upgraded socket and drive the
+ * session with the frames received from the client
+ */
+export function upgradeWebSocket({
+	request,
+	socket,
+	head,
+	session,
+	headers,
+	maxPayload = 1024 * 1024,
+}: {
+	request: IncomingMessage;
+	socket: Duplex;
+	head: Uint8Array;
+	session: WebSocketSession;
+	/**
+	 * Extra headers sent with the `101 Switching Protocols` response
+	 */
+	headers?: Headers;
+	/**
+	 * Maximum size of a message in bytes. Larger messages close the
+	 * connection with `1009`.
+	 */
+	maxPayload?: number;
+}) {
+	const key = request.headers["sec-websocket-key"];
+	if (!key || request.headers["sec-websocket-version"] !== "13") {
+		socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+		return;
+	}
+	const accept = createHash("sha1")
+		.update(key + WEBSOCKET_GUID)
+		.digest("base64");
+	const lines = [
+		"HTTP/1.1 101 Switching Protocols",
+		"Upgrade: websocket",
+		"Connection: Upgrade",
+		`Sec-WebSocket-Accept: ${accept}`,
+	];
+	headers?.forEach((value, name) => {
+		if (name === "content-type" || name === "content-length") return;
+		lines.push(`${name}: ${value}`);
+	});
+	socket.write(`${lines.join("\r\n")}\r\n\r\n`);
+
+	let closed = false;
+	let buffer: Uint8Array = new Uint8Array(0);
+	let fragments: Uint8Array[] = [];
+	let fragmentOpcode: number = OPCODE.TEXT;
+	// hooks run one after another, in the order the frames are received
+	let queue: Promise<void>;
+
+	const finish = (code: number, reason: string) => {
+		if (closed) return;
+		closed = true;
+		queue = queue.then(() => session.close(code, reason));
+	};
+
+	const peer: WebSocketPeer = {
+		send(data) {
+			if (closed) return;
+			if (typeof data === "string") {
+				socket.write(encodeFrame(OPCODE.TEXT, encoder.encode(data)));
+			} else {
+				socket.write(encodeFrame(OPCODE.BINARY, data));
+			}
+		},
+		close(code = 1000, reason = "") {
+			if (closed) return;
+			socket.end(encodeClose(code, reason));
+			finish(code, reason);
+		},
+	};
+
+	const deliver = (opcode: number, payload: Uint8Array) => {
+		const data = opcode === OPCODE.TEXT ? decoder.decode(payload) : payload;
+		queue = queue.then(() => session.message(data));
+	};
+
+	const handleFrame = (fin: boolean, opcode: number, payload: Uint8Array) => {
+		switch (opcode) {
+			case OPCODE.CLOSE: {
+				const code = payload.length >= 2 ? new DataView(payload.buffer).getUint16(0) : 1005;
+				const reason = decoder.decode(payload.subarray(2));
+				if (!closed) {
+					socket.end(code === 1005 ? encodeClose(1000, "") : encodeClose(code, ""));
+				}
+				finish(code, reason);
+				return;
+			}
+			case OPCODE.PING:
+				socket.write(encodeFrame(OPCODE.PONG, payload));
+				return;
+			case OPCODE.PONG:
+				return;
+			case OPCODE.CONTINUATION:
+				fragments.push(payload);
+				if (fin) {
+					const message = concat(fragments);
+					fragments = [];
+					deliver(fragmentOpcode, message);
+				}
+				return;
+			case OPCODE.TEXT:
+			case OPCODE.BINARY:
+				if (fin) {
+					deliver(opcode, payload);
+				} else {
+					fragmentOpcode = opcode;
+					fragments = [payload];
+				}
+				return;
+			default:
+				peer.close(1002, "Unsupported opcode");
+		}
+	};
+
+	const onData = (chunk: Uint8Array) => {
+		buffer = buffer.length ? concat([buffer, chunk]) : chunk;
+		while (!closed && buffer.length >= 2) {
+			const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+			const fin = (buffer[0]! & 0x80) !== 0;
+			const opcode = buffer[0]! & 0x0f;
+			const masked = (buffer[1]! & 0x80) !== 0;
+			let length = buffer[1]! & 0x7f;
+			let offset = 2;
+			if (length === 126) {
+				if (buffer.length < 4) return;
+				length = view.getUint16(2);
+				offset = 4;
+			} else if (length === 127) {
+				if (buffer.length < 10) return;
+				length = Number(view.getBigUint64(2));
+				offset = 10;
+			}
+			if (!masked) {
+				peer.close(1002, "Client frames must be masked");
+				return;
+			}
+			const buffered = fragments.reduce((size, fragment) => size + fragment.length, 0);
+			if (length + buffered > maxPayload) {
+				peer.close(1009, "Message too big");
+				return;
+			}
+			if (buffer.length < offset + 4 + length) return;
+			const mask = buffer.subarray(offset, offset + 4);
+			const payload = new Uint8Array(buffer.subarray(offset + 4, offset + 4 + length));
+			for (let i = 0; i < payload.length; i++) {
+				payload[i]! ^= mask[i % 4]!;
+			}
+			buffer = buffer.subarray(offset + 4 + length);
+			handleFrame(fin, opcode, payload);
+		}
+	};
+
+	queue = session.open(peer);
+	socket.on("data", onData);
+	socket.on("close", () => finish(1006, ""));
+	socket.on("error", () => socket.destroy());
+	if (head.length) {
+		onData(head);
+	}
+}
@@ -0,0 +1,276 @@
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from "vitest";
+import { createCache, createCacheMemoryStore, type CacheContext, type CacheEntry } from "./cache";
+import { createEndpoint } from "./endpoint";
+import { createRouter } from "./router";
+
+describe("cache", () => {
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should cache the responses of an endpoint", async () => {
+		let count = 0;
+		const cache = createCache({ ttl: 60_000, vary: ["accept-language"] });
+		const endpoint = createEndpoint("/posts", { method: "GET", use: [cache] }, async (ctx) => {
+			count++;
+			ctx.setHeader("x-count", String(count));
+			return { count, language: ctx.getHeader("accept-language") };
+		});
+		const router = createRouter({ endpoint });
+		const get = (query = "", headers: Record<string, string> = {}) =>
+			router.handler(new Request(`http://localhost/posts${query}`, { headers }));
+
+		const miss = await get("?a=1&b=2");
+		expect(miss.headers.get("x-cache")).toBe("MISS");
+		expect(await miss.json()).toEqual({ count: 1, language: null });
+
+		vi.advanceTimersByTime(5_000);
+		const hit = await get("?b=2&a=1");
+		expect(hit.headers.get("x-cache")).toBe("HIT");
+		expect(hit.headers.get("age")).toBe("5");
+		expect(hit.headers.get("x-count")).toBe("1");
+		expect(hit.headers.get("content-type")).toBe("application/json");
+		expect(await hit.json()).toEqual({ count: 1, language: null });
+
+		expect((await get("?a=2")).headers.get("x-cache")).toBe("MISS");
+		expect(await (await get("?a=1&b=2", { "accept-language": "fr" })).json()).toEqual({
+			count: 3,
+			language: "fr",
+		});
+
+		vi.advanceTimersByTime(60_000);
+		expect((await get("?a=1&b=2")).headers.get("x-cache")).toBe("MISS");
+		expect(count).toBe(4);
+	});
+
+	it("should honor the Cache-Control of the response", async () => {
+		let count = 0;
+		const cache = createCache();
+		const endpoint = createEndpoint(
+			"/item/:cacheControl",
+			{ method: "GET", use: [cache] },
+			async (ctx) => {
+				count++;
+				ctx.setHeader("Cache-Control", decodeURIComponent(ctx.params.cacheControl));
+				return { count };
+			},
+		);
+		const router = createRouter({ endpoint });
+		const get = (cacheControl: string) =>
+			router.handler(
+				new Request(`http://localhost/item/${encodeURIComponent(cacheControl)}`),
+			);
+
+		await get("no-store, max-age=60");
+		expect((await get("no-store, max-age=60")).headers.get("x-cache")).toBe("MISS");
+		await get("private, max-age=60");
+		expect((await get("private, max-age=60")).headers.get("x-cache")).toBe("MISS");
+		// no freshness and no ttl
+		await get("public");
+		expect((await get("public")).headers.get("x-cache")).toBe("MISS");
+
+		await get("max-age=10, s-maxage=60");
+		vi.advanceTimersByTime(30_000);
+		expect((await get("max-age=10, s-maxage=60")).headers.get("x-cache")).toBe("HIT");
+	});
+
+	it("should serve stale responses while revalidating", async () => {
+		let count = 0;
+		const cache = createCache();
+		const endpoint = createEndpoint("/stale", { method: "GET", use: [cache] }, async (ctx) => {
+			count++;
+			ctx.setHeader("Cache-Control", "max-age=10, stale-while-revalidate=30");
+			return { count };
+		});
+		const router = createRouter({ endpoint });
+		const get = () => router.handler(new Request("http://localhost/stale"));
+
+		await get();
+		vi.advanceTimersByTime(20_000);
+		const stale = await get();
+		expect(stale.headers.get("x-cache")).toBe("STALE");
+		expect(await stale.json()).toEqual({ count: 1 });
+		await vi.waitFor(() => expect(count).toBe(2));
+		// let the revalidated response be stored
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		const fresh = await get();
+		expect(fresh.headers.get("x-cache")).toBe("HIT");
+		expect(await fresh.json()).toEqual({ count: 2 });
+
+		vi.advanceTimersByTime(60_000);
+		expect((await get()).headers.get("x-cache")).toBe("MISS");
+	});
+
+	it("should invalidate tags through the context", async () => {
+		let count = 0;
+		const cache = createCache({ ttl: 60_000 });
+		const list = createEndpoint("/posts", { method: "GET", use: [cache] }, async (ctx) => {
+			expectTypeOf(ctx.context.cache).toEqualTypeOf<CacheContext>();
+			ctx.context.cache.tag("posts");
+			return { count: ++count };
+		});
+		const create = createEndpoint("/posts", { method: "POST", use: [cache] }, async (ctx) => {
+			await ctx.context.cache.invalidate("posts");
+			return { created: true };
+		});
+		const router = createRouter({ list, create });
+		const get = () => router.handler(new Request("http://localhost/posts"));
+
+		await get();
+		expect((await get()).headers.get("x-cache")).toBe("HIT");
+		await router.handler(new Request("http://localhost/posts", { method: "POST" }));
+		expect((await get()).headers.get("x-cache")).toBe("MISS");
+
+		await cache.invalidate("posts");
+		expect((await get()).headers.get("x-cache")).toBe("MISS");
+		expect(count).toBe(3);
+	});
+
+	it("should not cache responses setting cookies or direct calls", async () => {
+		let count = 0;
+		const cache = createCache({ ttl: 60_000 });
+		const endpoint = createEndpoint(
+			"/session",
+			{ method: "GET", use: [cache] },
+			async (ctx) => {
+				if (ctx.query?.cookie) {
+					ctx.setCookie("session", "abc");
+				}
+				return { count: ++count };
+			},
+		);
+		const router = createRouter({ endpoint });
+		await router.handler(new Request("http://localhost/session?cookie=1"));
+		expect(
+			(await router.handler(new Request("http://localhost/session?cookie=1"))).headers.get(
+				"x-cache",
+			),
+		).toBe("MISS");
+
+		expect(await endpoint()).toEqual({ count: 3 });
+		expect(await endpoint()).toEqual({ count: 4 });
+		await endpoint({ asResponse: true });
+		const response = await endpoint({ asResponse: true });
+		expect(response.headers.get("x-cache")).toBe("HIT");
+		expect(await response.json()).toEqual({ count: 5 });
+	});
+
+	it("should keep binary bodies", async () => {
+		const bytes = new Uint8Array([0, 255, 128, 10, 200]);
+		const endpoint = createEndpoint(
+			"/image",
+			{ method: "GET", use: [createCache({ ttl: 60_000 })] },
+			async () => {
+				return new Response(bytes, { headers: { "content-type": "image/png" } });
+			},
+		);
+		const router = createRouter({ endpoint });
+		await router.handler(new Request("http://localhost/image"));
+		const hit = await router.handler(new Request("http://localhost/image"));
+		expect(hit.headers.get("x-cache")).toBe("HIT");
+		expect(new Uint8Array(await hit.arrayBuffer())).toEqual(bytes);
+	});
+
+	it("should only share the responses to authenticated requests when allowed", async () => {
+		let count = 0;
+		const endpoint = createEndpoint(
+			"/me",
+			{ method: "GET", use: [createCache({ ttl: 60_000 })] },
+			async (ctx) => {
+				if (ctx.query?.public) ctx.setHeader("Cache-Control", "public, max-age=60");
+				return { count: ++count };
+			},
+		);
+		const router = createRouter({ endpoint });
+		const get = (query = "") =>
+			router.handler(
+				new Request(`http://localhost/me${query}`, {
+					headers: { authorization: "Bearer a" },
+				}),
+			);
+		await get();
+		expect((await get()).headers.get("x-cache")).toBe("MISS");
+		expect(count).toBe(2);
+
+		await get("?public=1");
+		expect((await get("?public=1")).headers.get("x-cache")).toBe("HIT");
+		expect(count).toBe(3);
+	});
+
+	it("should not share the responses to requests with cookies", async () => {
+		const endpoint = createEndpoint(
+			"/me",
+			{ method: "GET", use: [createCache({ ttl: 60_000 })] },
+			async (ctx) => ({ user: ctx.getCookie("session") }),
+		);
+		const router = createRouter({ endpoint });
+		const get = (session: string) =>
+			router.handler(
+				new Request("http://localhost/me", { headers: { cookie: `session=${session}` } }),
+			);
+		await get("alice");
+		const bob = await get("bob");
+		expect(bob.headers.get("x-cache")).toBe("MISS");
+		expect(await bob.json()).toEqual({ user: "bob" });
+	});
+
+	it("should work as a router middleware with a custom store", async () => {
+		const entries = new Map<string, CacheEntry>();
+		const cache = createCache({
+			ttl: 60_000,
+			prefix: "api",
+			store: {
+				get: async (key) => entries.get(key),
+				set: async (key, entry) => {
+					entries.set(key, entry);
+				},
+				delete: async (key) => {
+					entries.delete(key);
+				},
+				invalidate: async () => {},
+			},
+		});
+		let count = 0;
+		const endpoint = createEndpoint("/api/items", { method: "GET" }, async () => {
+			return { count: ++count };
+		});
+		const router = createRouter(
+			{ endpoint },
+			{ routerMiddleware: [{ path: "/api/**", middleware: cache }] },
+		);
+		await router.handler(new Request("http://localhost/api/items?b=1&a=2"));
+		const hit = await router.handler(new Request("http://localhost/api/items?a=2&b=1"));
+		expect(hit.headers.get("x-cache")).toBe("HIT");
+		expect(await hit.json()).toEqual({ count: 1 });
+		expect([...entries.keys()][0]).toMatch(/^api:GET:\/api\/items:.*a=2&b=1$/);
+	});
+
+	it("should evict the least recently used entries", async () => {
+		const store = createCacheMemoryStore({ maxEntries: 2 });
+		const entry = (tags: string[] = []): CacheEntry => ({
+			status: 200,
+			headers: [],
+			body: "",
+			created: Date.now(),
+			maxAge: 1000,
+			staleWhileRevalidate: 0,
+			tags,
+		});
+		store.set("a", entry(), 1000);
+		store.set("b", entry(["tag"]), 1000);
+		store.get("a");
+		store.set("c", entry(), 1000);
+		expect(store.get("b")).toBeUndefined();
+		expect(store.get("a")).toBeDefined();
+		store.set("d", entry(["tag"]), 1000);
+		store.invalidate(["tag"]);
+		expect(store.get("d")).toBeUndefined();
+		expect(store.get("a")).toBeDefined();
+	});
+});
@@ -0,0 +1,324 @@
+import type { InputContext } from "./context";
+import type { EndpointOptions } from "./endpoint";
+import {
+	type AroundMiddleware,
+	createMiddleware,
+	type MiddlewareContext,
+	type MiddlewareOptions,
+} from "./middleware";
+import { toResponse } from "./to-response";
+import { decodeBase64, encodeBase64, normalizeQuery } from "./utils";
+
+/**
+ * A response stored in the cache
+ */
+export interface CacheEntry {
+	status: number;
+	headers: [string, string][];
+	/**
+	 * The body encoded as base64, so binary bodies survive serialization
+	 */
+	body: string;
+	/**
+	 * Time the response was stored, in milliseconds
+	 */
+	created: number;
+	/**
+	 * Milliseconds the response is fresh
+	 */
+	maxAge: number;
+	/**
+	 * Milliseconds a stale response can be served while it's revalidated
+	 */
+	staleWhileRevalidate: number;
+	tags: string[];
+}
+
+/**
+ * Storage of the cached responses
+ *
+ * `invalidate` must find the entries by tag, for example with a set of keys
+ * per tag.
+ */
+export interface CacheStore {
+	get: (key: string) => CacheEntry | undefined | Promise<CacheEntry | undefined>;
+	/**
+	 * @param ttl - Time in milliseconds after which the entry can be discarded
+	 */
+	set: (key: string, entry: CacheEntry, ttl: number) => void | Promise<void>;
+	delete: (key: string) => void | Promise<void>;
+	/**
+	 * Delete the entries with any of the tags
+	 */
+	invalidate: (tags: string[]) => void | Promise<void>;
+}
+
+/**
+ * Cache controls available to the handlers on `ctx.context.cache`
+ */
+export interface CacheContext {
+	/**
+	 * Add tags to the response of the request, to invalidate it later
+	 */
+	tag: (...tags: string[]) => void;
+	/**
+	 * Delete the cached responses with any of the tags
+	 */
+	invalidate: (...tags: string[]) => Promise<void>;
+}
+
+export interface CacheOptions {
+	/**
+	 * @default an in-memory LRU store of 1000 entries
+	 */
+	store?: CacheStore;
+	/**
+	 * Milliseconds a response is fresh when its `Cache-Control` header has no
+	 * `s-maxage` or `max-age`. Responses without either aren't cached.
+	 */
+	ttl?: number;
+	/**
+	 * Request headers the responses vary on, part of the cache key
+	 */
+	vary?: string[];
+	/**
+	 * Tags added to every cached response
+	 */
+	tags?:
+		| string[]
+		| ((ctx: MiddlewareContext<MiddlewareOptions, Record<string, any>>) => string[]);
+	/**
+	 * Prefix of the keys in the store, to share a store between caches
+	 *
+	 * @default "cache"
+	 */
+	prefix?: string;
+}
+
+/**
+ * Create an in-memory cache store, evicting the least recently used entries
+ */
+export function createCacheMemoryStore(options: { maxEntries?: number } = {}): CacheStore {
+	const maxEntries = options.maxEntries ?? 1000;
+	// a map iterates in insertion order, so the first entry is the least recently used
+	const entries = new Map<string, { entry: CacheEntry; expires: number }>();
+	return {
+		get(key) {
+			const value = entries.get(key);
+			if (!value) return undefined;
+			entries.delete(key);
+			if (value.expires <= Date.now()) return undefined;
+			entries.set(key, value);
+			return value.entry;
+		},
+		set(key, entry, ttl) {
+			entries.delete(key);
+			entries.set(key, { entry, expires: Date.now() + ttl });
+			for (const key of entries.keys()) {
+				if (entries.size <= maxEntries) break;
+				entries.delete(key);
+			}
+		},
+		delete(key) {
+			entries.delete(key);
+		},
+		invalidate(tags) {
+			for (const [key, { entry }] of entries) {
+				if (entry.tags.some((tag) => tags.includes(tag))) entries.delete(key);
+			}
+		},
+	};
+}
+
+function parseCacheControl(header: string | null) {
+	const directives = new Map<string, string | true>();
+	for (const directive of header?.split(",") || []) {
+		const [name, value] = directive.trim().split("=");
+		if (name) directives.set(name.toLowerCase(), value?.replace(/^"|"$/g, "") ?? true);
+	}
+	return directives;
+}
+
+function getSeconds(value: string | true | undefined) {
+	const seconds = typeof value === "string" ? Number.parseInt(value, 10) : Number.NaN;
+	return Number.isNaN(seconds) ? undefined : seconds * 1000;
+}
+
+function toCachedResponse(entry: CacheEntry, status: "HIT" | "STALE", now: number) {
+	const response = new Response(entry.body ? decodeBase64(entry.body) : null, {
+		status: entry.status,
+		headers: entry.headers,
+	});
+	response.headers.set("Age", String(Math.floor((now - entry.created) / 1000)));
+	response.headers.set("X-Cache", status);
+	return response;
+}
+
+/**
+ * Create a middleware caching the responses of GET and HEAD requests
+ *
+ * Responses are keyed by method, path, query and the `vary` request
+ * headers. The freshness comes from the `s-maxage`, `max-age` and
+ * `stale-while-revalidate` directives of the `Cache-Control` header of the
+ * response, or the `ttl` option. Responses with `no-store`, `no-cache`,
+ * `private` or a `set-cookie` header aren't cached, nor are the responses
+ * to requests with an `Authorization` or `Cookie` header unless they're
+ * `public` or have `s-maxage`. Handlers can tag the response and invalidate
+ * tags through `ctx.context.cache`.
+ *
+ * @example
+ * ```ts
+ * const cache = createCache({ ttl: 60_000, vary: ["accept-language"] })
+ *
+ * const getPosts = createEndpoint("/posts", {
+ * 		method: "GET",
+ * 		use: [cache],
+ * 	}, async (ctx) => {
+ * 		ctx.context.cache.tag("posts")
+ * 		return getPosts()
+ * 	})
+ *
+ * const createPost = createEndpoint("/posts", {
+ * 		method: "POST",
+ * 		use: [cache],
+ * 	}, async (ctx) => {
+ * 		await ctx.context.cache.invalidate("posts")
+ * 		return createPost()
+ * 	})
+ * ```
+ */
+export function createCache(options: CacheOptions = {}) {
+	const store = options.store || createCacheMemoryStore();
+	const prefix = options.prefix || "cache";
+	const vary = (options.vary || []).map((header) => header.toLowerCase()).sort();
+	const revalidating = new Set<string>();
+
+	const middleware = createMiddleware.around(async (ctx, next) => {
+		const tags = new Set<string>();
+		const cache: CacheContext = {
+			tag: (...values) => {
+				for (const tag of values) tags.add(tag);
+			},
+			invalidate: async (...values) => {
+				await store.invalidate(values);
+			},
+		};
+		Object.assign(ctx.context, { cache });
+
+		const endpointState = (ctx as unknown as InputContext<string, EndpointOptions>)
+			.endpointState;
+		const method = ctx.method.toUpperCase();
+		// direct calls that don't return a response aren't cached
+		if (
+			(method !== "GET" && method !== "HEAD") ||
+			(endpointState && !endpointState.asResponse)
+		) {
+			return next();
+		}
+
+		// the params tell apart direct calls, where the path is the pattern of the endpoint
+		const params: unknown = ctx.params;
+		const headers = vary.map((header) => `${header}=${ctx.getHeader(header) ?? ""}`);
+		const key = [
+			prefix,
+			"GET",
+			ctx.path,
+			typeof params === "object" ? normalizeQuery(params as Record<string, any>) : "",
+			normalizeQuery(ctx.query),
+			...headers,
+		].join(":");
+
+		const save = async (result: unknown) => {
+			// in an endpoint, the headers and status set by the handler aren't part of the result yet
+			const response = toResponse(result instanceof Response ? result.clone() : result, {
+				headers: new Headers(endpointState?.headers),
+				status: endpointState?.status,
+			});
+			const cacheControl = parseCacheControl(response.headers.get("cache-control"));
+			if (
+				response.status !== 200 ||
+				response.headers.has("set-cookie") ||
+				response.headers.get("vary")?.includes("*") ||
+				response.headers.get("content-type")?.includes("text/event-stream") ||
+				["no-store", "no-cache", "private"].some((directive) =>
+					cacheControl.has(directive),
+				) ||
+				// responses to authenticated requests are only shared when they allow it
+				((ctx.getHeader("authorization") || ctx.getHeader("cookie")) &&
+					!cacheControl.has("public") &&
+					!cacheControl.has("s-maxage"))
+			) {
+				await response.body?.cancel();
+				return;
+			}
+			const maxAge =
+				getSeconds(cacheControl.get("s-maxage")) ??
+				getSeconds(cacheControl.get("max-age")) ??
+				options.ttl ??
+				0;
+			const staleWhileRevalidate =
+				getSeconds(cacheControl.get("stale-while-revalidate")) ?? 0;
+			if (maxAge + staleWhileRevalidate <= 0) {
+				await response.body?.cancel();
+				return;
+			}
+			const defaultTags =
+				typeof options.tags === "function"
+					? options.tags(ctx as MiddlewareContext<MiddlewareOptions, Record<string, any>>)
+					: options.tags || [];
+			const entryHeaders: [string, string][] = [];
+			response.headers.forEach((value, name) => {
+				if (name !== "x-cache" && name !== "age") entryHeaders.push([name, value]);
+			});
+			await store.set(
+				key,
+				{
+					status: response.status,
+					headers: entryHeaders,
+					body: encodeBase64(new Uint8Array(await response.arrayBuffer())),
+					created: Date.now(),
+					maxAge,
+					staleWhileRevalidate,
+					tags: [...defaultTags, ...tags],
+				},
+				maxAge + staleWhileRevalidate,
+			);
+		};
+
+		const entry = await store.get(key);
+		const now = Date.now();
+		if (entry && now - entry.created < entry.maxAge) {
+			return toCachedResponse(entry, "HIT", now);
+		}
+		if (entry && now - entry.created < entry.maxAge + entry.staleWhileRevalidate) {
+			if (!revalidating.has(key)) {
+				revalidating.add(key);
+				// the stale response is served while the handler runs in the background
+				next()
+					.then(save)
+					.catch(() => {})
+					.finally(() => revalidating.delete(key));
+			}
+			return toCachedResponse(entry, "STALE", now);
+		}
+
+		const result = await next();
+		await save(result);
+		ctx.setHeader("X-Cache", "MISS");
+		return result;
+	});
+
+	return Object.assign(
+		middleware as typeof middleware & {
+			$Infer: { context: { cache: CacheContext } };
+		},
+		{
+			/**
+			 * Delete the cached responses with any of the tags
+			 */
+			invalidate: async (...tags: string[]) => {
+				await store.invalidate(tags);
+			},
+		},
+	) satisfies AroundMiddleware;
+}
@@ -319,4 +319,43 @@ describe("client", () => {
 		client("@post/test");
 		client("/test2");
 	});
+
+	it("should infer error type from the error schema", async () => {
+		const router = createRouter({
+			endpoint: createEndpoint(
+				"/test",
+				{
+					method: "POST",
+					error: z.object({
+						message: z.string(),
+						code: z.enum(["NOT_ALLOWED"]),
+					}),
+				},
+				async (ctx) => {
+					throw ctx.error("FORBIDDEN", {
+						message: "Not allowed",
+						code: "NOT_ALLOWED",
+					});
+				},
+			),
+		});
+		const client = createClient<typeof router>({
+			baseURL: "http://localhost:3000",
+			customFetchImpl: async (url, init) => {
+				return router.handler(new Request(url, init));
+			},
+		});
+		const response = await client("@post/test");
+		expectTypeOf(response.error).toEqualTypeOf<{
+			message: string;
+			code: "NOT_ALLOWED";
+			status: number;
+			statusText: string;
+		} | null>();
+		expect(response.error).toMatchObject({
+			status: 403,
+			message: "Not allowed",
+			code: "NOT_ALLOWED",
+		});
+	});
 });
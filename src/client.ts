@@ -1,7 +1,18 @@
-import { type BetterFetchOption, type BetterFetchResponse, createFetch } from "@better-fetch/fetch";
+import {
+	type BetterFetchOption,
+	type BetterFetchResponse,
+	createFetch,
+	getFetch,
+	getHeaders,
+	getMethod,
+	getURL,
+} from "@better-fetch/fetch";
 import type { Router } from "./router";
 import type { HasRequiredKeys, Prettify, UnionToIntersection } from "./helper";
 import type { Endpoint } from "./endpoint";
+import type { InferError, InferEvents } from "./context";
+import { APIError, type Status } from "./error";
+import { parseEventStream, type SSEEvent } from "./sse";
 
 type HasRequired<
 	T extends {
@@ -41,6 +52,14 @@ export interface ClientOptions extends BetterFetchOption {
 	baseURL?: string;
 }
 
+export interface SubscribeOptions {
+	/**
+	 * The id of the last received event, sent as the `Last-Event-ID` header
+	 * to resume the stream
+	 */
+	lastEventId?: string;
+}
+
 type WithRequired<T, K> = T & {
 	[P in K extends string ? K : never]-?: T[P extends keyof T ? P : never];
 };
@@ -97,7 +116,7 @@ export const createClient = <R extends Router | Router["endpoints"]>(options?: C
 		: {};
 
 	type O = Prettify<UnionToIntersection<Options>>;
-	return async <OPT extends O, K extends keyof OPT, C extends InferContext<OPT[K]>>(
+	const client = async <OPT extends O, K extends keyof OPT, C extends InferContext<OPT[K]>>(
 		path: K,
 		...options: HasRequired<C> extends true
 			? [
@@ -108,12 +127,56 @@ export const createClient = <R extends Router | Router["endpoints"]>(options?: C
 				]
 			: [BetterFetchOption<C["body"], C["query"], C["params"]>?]
 	): Promise<
-		BetterFetchResponse<Awaited<ReturnType<OPT[K] extends Endpoint ? OPT[K] : never>>>
+		BetterFetchResponse<
+			Awaited<ReturnType<OPT[K] extends Endpoint ? OPT[K] : never>>,
+			OPT[K] extends Endpoint ? InferError<OPT[K]["options"]> : unknown
+		>
 	> => {
 		return (await fetch(path as string, {
 			...options[0],
 		})) as any;
 	};
+
+	/**
+	 * Subscribe to a server-sent events endpoint and iterate over the parsed events
+	 */
+	async function* subscribe<OPT extends O, K extends keyof OPT, C extends InferContext<OPT[K]>>(
+		path: K,
+		...input: HasRequired<C> extends true
+			? [
+					WithRequired<
+						BetterFetchOption<C["body"], C["query"], C["params"]> & SubscribeOptions,
+						keyof RequiredOptionKeys<C>
+					>,
+				]
+			: [(BetterFetchOption<C["body"], C["query"], C["params"]> & SubscribeOptions)?]
+	): AsyncGenerator<OPT[K] extends Endpoint ? InferEvents<OPT[K]["options"]> : SSEEvent> {
+		const fetchOptions = {
+			...options,
+			...input[0],
+		} as BetterFetchOption & SubscribeOptions;
+		const headers = getHeaders(fetchOptions);
+		headers.set("accept", "text/event-stream");
+		if (fetchOptions.lastEventId) {
+			headers.set("last-event-id", fetchOptions.lastEventId);
+		}
+		const response = await getFetch(fetchOptions)(getURL(path as string, fetchOptions), {
+			method: getMethod(path as string, fetchOptions),
+			headers,
+			body: fetchOptions.body ? JSON.stringify(fetchOptions.body) : undefined,
+			signal: fetchOptions.signal,
+		});
+		if (!response.ok || !response.body) {
+			throw new APIError(
+				response.status as Status,
+				await response.json().catch(() => undefined),
+				response.headers,
+			);
+		}
+		yield* parseEventStream(response.body) as AsyncGenerator<any>;
+	}
+
+	return Object.assign(client, { subscribe });
 };
 
 export * from "./error";
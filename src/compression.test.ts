@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { brotliDecompressSync, gunzipSync, inflateSync } from "node:zlib";
+import { negotiateEncoding } from "./compression";
+import { createEndpoint } from "./endpoint";
+import { createRouter } from "./router";
+
+describe("compression", () => {
+	const items = Array.from({ length: 100 }, (_, id) => ({ id, name: `item ${id}` }));
+	const list = createEndpoint("/items", { method: "GET" }, async () => items);
+	const small = createEndpoint("/small", { method: "GET" }, async () => ({ ok: true }));
+	const binary = createEndpoint("/binary", { method: "GET" }, async () => {
+		return new Response(new Uint8Array(4096), {
+			headers: { "content-type": "application/octet-stream" },
+		});
+	});
+	const encoded = createEndpoint("/encoded", { method: "GET" }, async () => {
+		return new Response("a".repeat(4096), {
+			headers: { "content-type": "text/plain", "content-encoding": "identity" },
+		});
+	});
+	const events = createEndpoint("/events", { method: "GET" }, async (ctx) => {
+		return ctx.sse(async (stream) => {
+			await stream.send({ data: "a".repeat(4096) });
+		});
+	});
+	const router = createRouter({ list, small, binary, encoded, events }, { compression: {} });
+
+	const get = (path: string, acceptEncoding?: string) =>
+		router.handler(
+			new Request(`http://localhost${path}`, {
+				headers: acceptEncoding ? { "accept-encoding": acceptEncoding } : {},
+			}),
+		);
+
+	it("should compress responses with the negotiated encoding", async () => {
+		const gzip = await get("/items", "gzip, deflate");
+		expect(gzip.headers.get("content-encoding")).toBe("gzip");
+		expect(gzip.headers.get("vary")).toBe("Accept-Encoding");
+		const body = new Uint8Array(await gzip.arrayBuffer());
+		expect(gzip.headers.get("content-length")).toBe(String(body.length));
+		expect(JSON.parse(gunzipSync(body).toString())).toEqual(items);
+
+		const br = await get("/items", "gzip, br");
+		expect(br.headers.get("content-encoding")).toBe("br");
+		expect(
+			JSON.parse(brotliDecompressSync(new Uint8Array(await br.arrayBuffer())).toString()),
+		).toEqual(items);
+
+		const deflate = await get("/items", "deflate, gzip;q=0.5, br;q=0");
+		expect(deflate.headers.get("content-encoding")).toBe("deflate");
+		expect(
+			JSON.parse(inflateSync(new Uint8Array(await deflate.arrayBuffer())).toString()),
+		).toEqual(items);
+	});
+
+	it("should not compress when no encoding is accepted", async () => {
+		const response = await get("/items");
+		expect(response.headers.get("content-encoding")).toBeNull();
+		expect(response.headers.get("vary")).toBe("Accept-Encoding");
+		expect(await response.json()).toEqual(items);
+	});
+
+	it("should not compress responses below the threshold", async () => {
+		const response = await get("/small", "gzip");
+		expect(response.headers.get("content-encoding")).toBeNull();
+		expect(await response.json()).toEqual({ ok: true });
+	});
+
+	it("should skip encoded, binary and streaming responses", async () => {
+		expect((await get("/binary", "gzip")).headers.get("content-encoding")).toBeNull();
+		expect((await get("/encoded", "gzip")).headers.get("content-encoding")).toBe("identity");
+		const sse = await get("/events", "gzip");
+		expect(sse.headers.get("content-encoding")).toBeNull();
+		expect(await sse.text()).toContain("a".repeat(4096));
+	});
+
+	it("should compress streams as they're sent", async () => {
+		let ended = false;
+		const lines = createEndpoint("/lines", { method: "GET" }, async () => {
+			const encoder = new TextEncoder();
+			const body = new ReadableStream<Uint8Array>({
+				async start(controller) {
+					for (let i = 0; i < 3; i++) {
+						controller.enqueue(encoder.encode(`line ${i}\n`));
+						await new Promise((resolve) => setTimeout(resolve, 20));
+					}
+					controller.close();
+					ended = true;
+				},
+			});
+			return new Response(body, { headers: { "content-type": "application/x-ndjson" } });
+		});
+		const router = createRouter(
+			{ lines },
+			{ compression: { contentTypes: ["application/x-ndjson"] } },
+		);
+		const response = await router.handler(
+			new Request("http://localhost/lines", { headers: { "accept-encoding": "gzip" } }),
+		);
+		// the response doesn't wait for the end of the stream
+		expect(ended).toBe(false);
+		expect(response.headers.get("content-encoding")).toBe("gzip");
+		expect(response.headers.get("content-length")).toBeNull();
+		const body = new Uint8Array(await response.arrayBuffer());
+		expect(gunzipSync(body).toString()).toBe("line 0\nline 1\nline 2\n");
+
+		const br = await router.handler(
+			new Request("http://localhost/lines", { headers: { "accept-encoding": "br" } }),
+		);
+		expect(br.headers.get("content-encoding")).toBe("br");
+		expect(brotliDecompressSync(new Uint8Array(await br.arrayBuffer())).toString()).toBe(
+			"line 0\nline 1\nline 2\n",
+		);
+	});
+
+	it("should respect the configured encodings and content types", async () => {
+		const router = createRouter(
+			{ list, binary },
+			{
+				compression: {
+					encodings: ["gzip"],
+					contentTypes: ["application/octet-stream"],
+				},
+			},
+		);
+		const listResponse = await router.handler(
+			new Request("http://localhost/items", { headers: { "accept-encoding": "br, gzip" } }),
+		);
+		expect(listResponse.headers.get("content-encoding")).toBeNull();
+		const binaryResponse = await router.handler(
+			new Request("http://localhost/binary", { headers: { "accept-encoding": "br, gzip" } }),
+		);
+		expect(binaryResponse.headers.get("content-encoding")).toBe("gzip");
+	});
+
+	it("should negotiate encodings with quality values", () => {
+		expect(negotiateEncoding("gzip;q=0.5, br", ["gzip", "br"])).toBe("br");
+		expect(negotiateEncoding("*", ["gzip", "br"])).toBe("gzip");
+		expect(negotiateEncoding("*, gzip;q=0", ["gzip", "br"])).toBe("br");
+		expect(negotiateEncoding("identity", ["gzip"])).toBeUndefined();
+		expect(negotiateEncoding(null, ["gzip"])).toBeUndefined();
+	});
+});
@@ -0,0 +1,232 @@
+import { appendVary } from "./utils";
+
+export type CompressionEncoding = "br" | "gzip" | "deflate";
+
+export interface CompressionOptions {
+	/**
+	 * Encodings to negotiate, in order of preference
+	 *
+	 * `br` is only used when the runtime supports brotli.
+	 *
+	 * @default ["br", "gzip", "deflate"]
+	 */
+	encodings?: CompressionEncoding[];
+	/**
+	 * Minimum size of a body in bytes to compress it. Bodies still being
+	 * streamed are compressed whatever their size.
+	 *
+	 * @default 1024
+	 */
+	threshold?: number;
+	/**
+	 * Content types to compress. Strings match the media type exactly.
+	 *
+	 * @default text, JSON, XML, JavaScript and SVG content types
+	 */
+	contentTypes?: (string | RegExp)[];
+}
+
+const defaultContentTypes = [
+	/^text\//,
+	/^application\/(.+\+)?(json|xml)$/,
+	/^application\/(x-)?javascript$/,
+	/^image\/svg\+xml$/,
+];
+
+/**
+ * Create a stream compressing the chunks written to it
+ */
+type Compressor = () => ReadableWritablePair<Uint8Array, Uint8Array>;
+
+const compressionStream =
+	(format: string): Compressor =>
+	() =>
+		new CompressionStream(format as CompressionFormat) as unknown as ReadableWritablePair<
+			Uint8Array,
+			Uint8Array
+		>;
+
+let brotli: Promise<Compressor | null> | undefined;
+
+function getBrotli() {
+	brotli ??= (async () => {
+		try {
+			new CompressionStream("br" as CompressionFormat);
+			return compressionStream("br");
+		} catch {}
+		try {
+			const zlib = await import("node:zlib");
+			const { Duplex } = await import("node:stream");
+			return () =>
+				Duplex.toWeb(zlib.createBrotliCompress()) as unknown as ReadableWritablePair<
+					Uint8Array,
+					Uint8Array
+				>;
+		} catch {
+			return null;
+		}
+	})();
+	return brotli;
+}
+
+/**
+ * Read the chunks a body already holds, without waiting for the chunks of a
+ * stream that is still being produced
+ *
+ * Returns the chunks read, whether the body ended, and a copy of the whole
+ * body to stream it when it didn't.
+ */
+async function readAvailable(body: ReadableStream<Uint8Array>) {
+	const reader = body.getReader();
+	const chunks: Uint8Array[] = [];
+	let pending = reader.read();
+	for (;;) {
+		// a body in memory resolves its reads before the next macrotask
+		const result = await Promise.race([
+			pending,
+			new Promise<undefined>((resolve) => setTimeout(resolve, 0)),
+		]);
+		if (!result) break;
+		if (result.done) {
+			return { chunks, done: true as const };
+		}
+		chunks.push(result.value);
+		pending = reader.read();
+	}
+	const queued = [...chunks];
+	const copy = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const chunk = queued.shift();
+			if (chunk) {
+				controller.enqueue(chunk);
+				return;
+			}
+			const result = await pending;
+			if (result.done) {
+				controller.close();
+				return;
+			}
+			pending = reader.read();
+			controller.enqueue(result.value);
+		},
+		cancel(reason) {
+			return reader.cancel(reason);
+		},
+	});
+	return { chunks, done: false as const, body: copy };
+}
+
+function concat(chunks: Uint8Array[]) {
+	const result = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return result;
+}
+
+/**
+ * Pick the encoding to use from the `Accept-Encoding` header of a request
+ */
+export function negotiateEncoding(
+	acceptEncoding: string | null,
+	encodings: CompressionEncoding[],
+): CompressionEncoding | undefined {
+	if (!acceptEncoding) return undefined;
+	const accepted = new Map<string, number>();
+	for (const part of acceptEncoding.split(",")) {
+		const [name, ...params] = part.trim().toLowerCase().split(";");
+		const q = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+		accepted.set(name!, q ? Number(q.slice(2)) || 0 : 1);
+	}
+	let encoding: CompressionEncoding | undefined;
+	let quality = 0;
+	for (const candidate of encodings) {
+		const q = accepted.get(candidate) ?? accepted.get("*") ?? 0;
+		if (q > quality) {
+			encoding = candidate;
+			quality = q;
+		}
+	}
+	return encoding;
+}
+
+function isCompressible(contentType: string, options: CompressionOptions) {
+	const mediaType = contentType.split(";")[0]!.trim().toLowerCase();
+	return (options.contentTypes || defaultContentTypes).some((type) =>
+		type instanceof RegExp ? type.test(mediaType) : type === mediaType,
+	);
+}
+
+/**
+ * Compress a response with the best encoding accepted by the request
+ *
+ * Responses without a body, already encoded responses, server-sent events
+ * and content types that aren't compressible are returned as is. Bodies
+ * still being streamed are compressed as they're sent, whatever their size.
+ */
+export async function compressResponse(
+	request: Request,
+	response: Response,
+	options: CompressionOptions = {},
+) {
+	const contentType = response.headers.get("content-type") || "";
+	if (
+		!response.body ||
+		request.method === "HEAD" ||
+		response.headers.has("content-encoding") ||
+		contentType.startsWith("text/event-stream") ||
+		/\bno-transform\b/.test(response.headers.get("cache-control") || "") ||
+		!isCompressible(contentType, options)
+	) {
+		return response;
+	}
+	appendVary(response.headers, "Accept-Encoding");
+
+	let encodings = options.encodings || ["br", "gzip", "deflate"];
+	if (encodings.includes("br") && !(await getBrotli())) {
+		encodings = encodings.filter((encoding) => encoding !== "br");
+	}
+	const encoding = negotiateEncoding(request.headers.get("accept-encoding"), encodings);
+	const threshold = options.threshold ?? 1024;
+	const contentLength = response.headers.get("content-length");
+	if (!encoding || (contentLength && Number(contentLength) < threshold)) {
+		return response;
+	}
+
+	const headers = new Headers(response.headers);
+	const init = {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+	};
+	const available = await readAvailable(response.body);
+	const { chunks, done } = available;
+	if (done && chunks.reduce((size, chunk) => size + chunk.length, 0) < threshold) {
+		return new Response(concat(chunks) as Uint8Array<ArrayBuffer>, init);
+	}
+	const compressor = encoding === "br" ? (await getBrotli())! : compressionStream(encoding);
+	headers.set("Content-Encoding", encoding);
+	// the compressed body is a different representation
+	const etag = headers.get("etag");
+	if (etag && !etag.startsWith("W/")) {
+		headers.set("ETag", `W/${etag}`);
+	}
+	if (!available.done) {
+		headers.delete("Content-Length");
+		return new Response(
+			available.body.pipeThrough(compressor()) as ReadableStream<Uint8Array<ArrayBuffer>>,
+			init,
+		);
+	}
+	const compressed = new Uint8Array(
+		await new Response(
+			new Blob([concat(chunks) as Uint8Array<ArrayBuffer>])
+				.stream()
+				.pipeThrough(compressor()),
+		).arrayBuffer(),
+	);
+	headers.set("Content-Length", String(compressed.length));
+	return new Response(compressed as Uint8Array<ArrayBuffer>, init);
+}
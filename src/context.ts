@@ -1,5 +1,6 @@
 import type { EndpointOptions } from "./endpoint";
 import { type statusCodes, APIError, ValidationError, type Status } from "./error";
+import { checkIfMatch, checkIfUnmodifiedSince, formatETag } from "./etag";
 import type {
 	InferParamPath,
 	InferParamWildCard,
@@ -8,18 +9,28 @@ import type {
 	UnionToIntersection,
 } from "./helper";
 import type { Middleware, MiddlewareContext, MiddlewareOptions } from "./middleware";
-import { runValidation } from "./validator";
+import type { AfterHook, BeforeHook, RouterMiddleware } from "./router";
+import { runCookieValidation, runEventValidation, runValidation } from "./validator";
 import {
 	getCookieKey,
 	parseCookies,
 	serializeCookie,
 	serializeSignedCookie,
+	verifySignedCookieValue,
+	type CookieDefinition,
 	type CookieOptions,
 	type CookiePrefixOptions,
 } from "./cookies";
-import { getCryptoKey, verifySignature } from "./crypto";
 import type { StandardSchemaV1 } from "./standard-schema";
-import { isRequest } from "./utils";
+import { type Tracer, withSpan } from "./tracing";
+import { isAroundMiddleware, isRequest } from "./utils";
+import {
+	createEventStream,
+	type SSEEvent,
+	type SSEMessage,
+	type SSEOptions,
+	type SSEStream,
+} from "./sse";
 
 export type HTTPMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
 export type Method = HTTPMethod | "*";
@@ -84,6 +95,60 @@ export type InferQuery<Options extends EndpointOptions | MiddlewareOptions> =
 			? StandardSchemaV1.InferOutput<Options["query"]>
 			: Record<string, any> | undefined;
 
+type InferResponseSchema<Options extends EndpointOptions> =
+	Options["response"] extends StandardSchemaV1
+		? Options["response"]
+		: Options["responses"] extends Record<number, StandardSchemaV1>
+			? Extract<Options["responses"][keyof Options["responses"]], StandardSchemaV1>
+			: never;
+
+export type InferResponse<Options extends EndpointOptions, R> = [
+	InferResponseSchema<Options>,
+] extends [never]
+	? R
+	: Awaited<R> extends Response
+		? R
+		: StandardSchemaV1.InferOutput<InferResponseSchema<Options>>;
+
+export type InferResponseInput<Options extends EndpointOptions> = [
+	InferResponseSchema<Options>,
+] extends [never]
+	? any
+	: StandardSchemaV1.InferInput<InferResponseSchema<Options>> | Response;
+
+export type InferError<Options extends EndpointOptions | MiddlewareOptions> =
+	Options["error"] extends StandardSchemaV1
+		? StandardSchemaV1.InferOutput<Options["error"]>
+		: unknown;
+
+export type InferErrorInput<Options extends EndpointOptions | MiddlewareOptions> =
+	Options["error"] extends StandardSchemaV1
+		? StandardSchemaV1.InferInput<Options["error"]>
+		: {
+				message?: string;
+				code?: string;
+			} & Record<string, any>;
+
+export type InferEventsInput<Options extends EndpointOptions | MiddlewareOptions> =
+	Options["events"] extends Record<string, StandardSchemaV1>
+		? {
+				[K in keyof Options["events"] & string]: SSEMessage<
+					K,
+					StandardSchemaV1.InferInput<Options["events"][K]>
+				>;
+			}[keyof Options["events"] & string]
+		: SSEMessage;
+
+export type InferEvents<Options extends EndpointOptions | MiddlewareOptions> =
+	Options["events"] extends Record<string, StandardSchemaV1>
+		? {
+				[K in keyof Options["events"] & string]: SSEEvent<
+					K,
+					StandardSchemaV1.InferOutput<Options["events"][K]>
+				>;
+			}[keyof Options["events"] & string]
+		: SSEEvent;
+
 export type InferMethod<Options extends EndpointOptions> = Options["method"] extends Array<Method>
 	? Options["method"][number]
 	: Options["method"] extends "*"
@@ -105,21 +170,33 @@ export type InferInputMethod<
 			method: Method;
 		};
 
-export type InferParam<Path extends string> = [Path] extends [never]
-	? Record<string, any> | undefined
-	: IsEmptyObject<InferParamPath<Path> & InferParamWildCard<Path>> extends true
+export type InferParam<
+	Path extends string,
+	Options extends EndpointOptions | MiddlewareOptions = EndpointOptions,
+> = Options["params"] extends StandardSchemaV1
+	? StandardSchemaV1.InferOutput<Options["params"]>
+	: [Path] extends [never]
 		? Record<string, any> | undefined
-		: Prettify<InferParamPath<Path> & InferParamWildCard<Path>>;
+		: IsEmptyObject<InferParamPath<Path> & InferParamWildCard<Path>> extends true
+			? Record<string, any> | undefined
+			: Prettify<InferParamPath<Path> & InferParamWildCard<Path>>;
 
-export type InferParamInput<Path extends string> = [Path] extends [never]
-	? { params?: Record<string, any> }
-	: IsEmptyObject<InferParamPath<Path> & InferParamWildCard<Path>> extends true
-		? {
-				params?: Record<string, any>;
-			}
-		: {
-				params: Prettify<InferParamPath<Path> & InferParamWildCard<Path>>;
-			};
+export type InferParamInput<
+	Path extends string,
+	Options extends EndpointOptions | MiddlewareOptions = EndpointOptions,
+> = Options["params"] extends StandardSchemaV1
+	? undefined extends StandardSchemaV1.InferInput<Options["params"]>
+		? { params?: StandardSchemaV1.InferInput<Options["params"]> }
+		: { params: StandardSchemaV1.InferInput<Options["params"]> }
+	: [Path] extends [never]
+		? { params?: Record<string, any> }
+		: IsEmptyObject<InferParamPath<Path> & InferParamWildCard<Path>> extends true
+			? {
+					params?: Record<string, any>;
+				}
+			: {
+					params: Prettify<InferParamPath<Path> & InferParamWildCard<Path>>;
+				};
 
 export type InferRequest<Option extends EndpointOptions | MiddlewareOptions> =
 	Option["requireRequest"] extends true ? Request : Request | undefined;
@@ -134,21 +211,75 @@ export type InferRequestInput<Option extends EndpointOptions | MiddlewareOptions
 			};
 
 export type InferHeaders<Option extends EndpointOptions | MiddlewareOptions> =
-	Option["requireHeaders"] extends true ? Headers : Headers | undefined;
+	Option["headers"] extends StandardSchemaV1
+		? StandardSchemaV1.InferOutput<Option["headers"]>
+		: Option["requireHeaders"] extends true
+			? Headers
+			: Headers | undefined;
 
 export type InferHeadersInput<Option extends EndpointOptions | MiddlewareOptions> =
-	Option["requireHeaders"] extends true
+	Option["headers"] extends StandardSchemaV1
+		? undefined extends StandardSchemaV1.InferInput<Option["headers"]>
+			? {
+					headers?: Headers | StandardSchemaV1.InferInput<Option["headers"]>;
+				}
+			: {
+					headers: Headers | StandardSchemaV1.InferInput<Option["headers"]>;
+				}
+		: Option["requireHeaders"] extends true
+			? {
+					headers: HeadersInit;
+				}
+			: {
+					headers?: HeadersInit;
+				};
+
+export type InferCookies<Option extends EndpointOptions | MiddlewareOptions> =
+	Option["cookies"] extends Record<string, CookieDefinition>
 		? {
-				headers: HeadersInit;
+				[K in keyof Option["cookies"]]: Option["cookies"][K]["schema"] extends StandardSchemaV1
+					? StandardSchemaV1.InferOutput<Option["cookies"][K]["schema"]>
+					: string | undefined;
 			}
-		: {
-				headers?: HeadersInit;
-			};
+		: {};
+
+type InferMiddlewareContext<M> = M extends { around: true }
+	? M extends { $Infer: { context: infer C } }
+		? C
+		: {}
+	: M extends (...args: any) => infer R
+		? Exclude<Awaited<R>, Response>
+		: {};
 
 export type InferUse<Opts extends EndpointOptions["use"]> = Opts extends Middleware[]
-	? UnionToIntersection<Awaited<ReturnType<Opts[number]>>>
+	? UnionToIntersection<InferMiddlewareContext<Opts[number]>>
 	: {};
 
+export type InferRouterContext<Options extends EndpointOptions | MiddlewareOptions> =
+	Options["metadata"] extends {
+		$Infer: {
+			context: infer Context;
+		};
+	}
+		? Context
+		: {};
+
+export type InferRouterContextInput<Options extends EndpointOptions | MiddlewareOptions> =
+	Options["metadata"] extends {
+		$Infer: {
+			context: infer Context;
+		};
+	}
+		? {
+				context: Context;
+			}
+		: {
+				context?: Record<string, any>;
+			};
+
+export type InferRouterMiddleware<M extends RouterMiddleware[] | undefined> =
+	M extends RouterMiddleware[] ? InferUse<M[number]["middleware"][]> : {};
+
 export type InferMiddlewareBody<Options extends MiddlewareOptions> =
 	Options["body"] extends StandardSchemaV1<infer T> ? T : any;
 
@@ -161,14 +292,43 @@ export type InputContext<
 > = InferBodyInput<Options> &
 	InferInputMethod<Options> &
 	InferQueryInput<Options> &
-	InferParamInput<Path> &
+	InferParamInput<Path, Options> &
 	InferRequestInput<Options> &
-	InferHeadersInput<Options> & {
+	InferHeadersInput<Options> &
+	InferRouterContextInput<Options> & {
 		asResponse?: boolean;
 		returnHeaders?: boolean;
 		returnStatus?: boolean;
 		use?: Middleware[];
 		path?: string;
+		signal?: AbortSignal;
+		/**
+		 * Time in milliseconds after which the handler is aborted, set by the
+		 * router. The endpoint `timeout` applies too, whichever is reached first.
+		 */
+		timeout?: number;
+		/**
+		 * Tracer receiving the spans of the phases of the call
+		 */
+		tracer?: Tracer;
+		/**
+		 * Hooks run before and after the handler, set by the router from the
+		 * hooks matching the endpoint
+		 */
+		hooks?: {
+			before: BeforeHook["handler"][];
+			after: AfterHook["handler"][];
+		};
+		/**
+		 * The state of the response of the endpoint, set by the endpoint for
+		 * its around middlewares. The headers and status reflect what the
+		 * handler set once `next` resolves.
+		 */
+		endpointState?: {
+			asResponse?: boolean;
+			readonly headers: Headers;
+			readonly status?: Status;
+		};
 	};
 
 export const createInternalContext = async (
@@ -183,8 +343,17 @@ export const createInternalContext = async (
 ) => {
 	const headers = new Headers();
 	let responseStatus: Status | undefined = undefined;
+	// the first validators set are the ones of the resource before it's modified
+	const validated = { etag: false, lastModified: false };
 
-	const { data, error } = await runValidation(options, context);
+	const tracer = context.tracer;
+	const attributes = {
+		"http.route": path,
+		"http.request.method": context.method,
+	};
+	const { data, error } = await withSpan(tracer, "validation", attributes, () =>
+		runValidation(options, context),
+	);
 	if (error) {
 		throw new ValidationError(error.message, error.issues);
 	}
@@ -198,17 +367,42 @@ export const createInternalContext = async (
 				: null;
 	const requestCookies = requestHeaders?.get("cookie");
 	const parsedCookies = requestCookies ? parseCookies(requestCookies) : undefined;
+	const { data: cookies, error: cookieError } = await runCookieValidation(options, parsedCookies);
+	if (cookieError) {
+		throw new ValidationError(cookieError.message, cookieError.issues);
+	}
+
+	const combine = (signals: (AbortSignal | undefined)[]) => {
+		const defined = signals.filter((signal): signal is AbortSignal => !!signal);
+		return defined.length <= 1 ? defined[0] : AbortSignal.any(defined);
+	};
+	// aborted when the client is gone, event streams outlive the timeouts of the handler
+	const clientSignal = combine([
+		context.signal,
+		isRequest(context.request) ? context.request.signal : undefined,
+	]);
+	const signal =
+		combine([
+			clientSignal,
+			options.timeout ? AbortSignal.timeout(options.timeout) : undefined,
+			context.timeout ? AbortSignal.timeout(context.timeout) : undefined,
+		]) ?? new AbortController().signal;
 
 	const internalContext = {
 		...context,
+		signal,
 		body: data.body,
 		query: data.query,
 		path: context.path || path || "virtual:",
 		context: "context" in context && context.context ? context.context : {},
-		returned: undefined as any,
-		headers: context?.headers,
+		/**
+		 * The `Response` a middleware ended the request with
+		 */
+		returned: undefined as Response | undefined,
+		headers: options.headers ? data.headers : context?.headers,
 		request: context?.request,
-		params: "params" in context ? context.params : undefined,
+		params: data.params,
+		cookies,
 		method:
 			context.method ??
 			(Array.isArray(options.method)
@@ -239,18 +433,7 @@ export const createInternalContext = async (
 			if (!value) {
 				return null;
 			}
-			const signatureStartPos = value.lastIndexOf(".");
-			if (signatureStartPos < 1) {
-				return null;
-			}
-			const signedValue = value.substring(0, signatureStartPos);
-			const signature = value.substring(signatureStartPos + 1);
-			if (signature.length !== 44 || !signature.endsWith("=")) {
-				return null;
-			}
-			const secretKey = await getCryptoKey(secret);
-			const isVerified = await verifySignature(signature, signedValue, secretKey);
-			return isVerified ? signedValue : false;
+			return verifySignedCookieValue(value, secret);
 		},
 		setCookie: (key: string, value: string, options?: CookieOptions) => {
 			const cookie = serializeCookie(key, value, options);
@@ -286,6 +469,39 @@ export const createInternalContext = async (
 		setStatus: (status: Status) => {
 			responseStatus = status;
 		},
+		setETag: (etag: string, etagOptions?: { weak?: boolean }) => {
+			const value = formatETag(etag, etagOptions?.weak);
+			if (!validated.etag) {
+				validated.etag = true;
+				checkIfMatch(internalContext.method, requestHeaders, value);
+			}
+			headers.set("ETag", value);
+		},
+		setLastModified: (date: Date | string | number) => {
+			const value = new Date(date);
+			if (!validated.lastModified) {
+				validated.lastModified = true;
+				checkIfUnmodifiedSince(internalContext.method, requestHeaders, value);
+			}
+			headers.set("Last-Modified", value.toUTCString());
+		},
+		sse: (handler: (stream: SSEStream) => void | Promise<void>, sseOptions?: SSEOptions) => {
+			const events = options.events;
+			return createEventStream(handler, {
+				...sseOptions,
+				signal: clientSignal,
+				lastEventId: requestHeaders?.get("last-event-id") ?? null,
+				validate: events
+					? async (message) => {
+							const { data, error } = await runEventValidation(events, message);
+							if (error) {
+								throw new ValidationError(error.message, error.issues);
+							}
+							return data;
+						}
+					: undefined,
+			});
+		},
 		json: (
 			json: Record<string, any>,
 			routerResponse?:
@@ -312,16 +528,25 @@ export const createInternalContext = async (
 		},
 	};
 	//if context was shimmed through the input we want to apply it
-	for (const middleware of options.use || []) {
-		const response = (await middleware({
-			...internalContext,
-			returnHeaders: true,
-			asResponse: false,
-		})) as {
+	for (const [index, middleware] of (options.use || []).entries()) {
+		// around middlewares wrap the handler and run in the endpoint
+		if (isAroundMiddleware(middleware)) continue;
+		const response = (await withSpan(
+			tracer,
+			"middleware",
+			{ ...attributes, "better-call.middleware.index": index },
+			() =>
+				middleware({
+					...internalContext,
+					headers: context?.headers,
+					returnHeaders: true,
+					asResponse: false,
+				}),
+		)) as {
 			response?: any;
 			headers?: Headers;
 		};
-		if (response.response) {
+		if (response.response && !(response.response instanceof Response)) {
 			Object.assign(internalContext.context, response.response);
 		}
 		/**
@@ -332,6 +557,14 @@ export const createInternalContext = async (
 				internalContext.responseHeaders.set(key, value);
 			});
 		}
+		/**
+		 * A middleware returning a response ends the request, the remaining
+		 * middlewares and the handler are skipped
+		 */
+		if (response.response instanceof Response) {
+			internalContext.returned = response.response;
+			break;
+		}
 	}
 	return internalContext;
 };
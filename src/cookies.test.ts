@@ -1,4 +1,4 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, expectTypeOf, it } from "vitest";
 import { createEndpoint } from "./endpoint";
 import { z } from "zod";
 import { signCookieValue } from "./crypto";
@@ -123,6 +123,101 @@ describe("get-cookies", () => {
 	});
 });
 
+describe("cookies schema", () => {
+	it("should expose declared cookies on ctx.cookies", async () => {
+		const endpoint = createEndpoint(
+			"/",
+			{
+				method: "GET",
+				cookies: {
+					theme: {
+						schema: z.enum(["light", "dark"]),
+					},
+					count: {
+						schema: z.coerce.number().optional(),
+					},
+					raw: {
+						prefix: "secure",
+					},
+				},
+			},
+			async (c) => {
+				expectTypeOf(c.cookies).toEqualTypeOf<{
+					theme: "light" | "dark";
+					count: number | undefined;
+					raw: string | undefined;
+				}>();
+				return c.cookies;
+			},
+		);
+		const response = await endpoint({
+			headers: {
+				cookie: "theme=dark; __Secure-raw=value; raw=ignored",
+			},
+		});
+		expect(response).toEqual({ theme: "dark", count: undefined, raw: "value" });
+	});
+
+	it("should throw validation error for invalid cookies", async () => {
+		const endpoint = createEndpoint(
+			"/",
+			{
+				method: "GET",
+				cookies: {
+					theme: {
+						schema: z.enum(["light", "dark"]),
+					},
+				},
+			},
+			async (c) => {
+				return c.cookies;
+			},
+		);
+		await expect(endpoint()).rejects.toThrowError("[cookies.theme]");
+		await expect(
+			endpoint({
+				headers: {
+					cookie: "theme=blue",
+				},
+			}),
+		).rejects.toThrowError("[cookies.theme]");
+	});
+
+	it("should verify signed cookies", async () => {
+		const secret = "test";
+		const endpoint = createEndpoint(
+			"/",
+			{
+				method: "GET",
+				cookies: {
+					session: {
+						schema: z.string(),
+						signed: true,
+						secret,
+					},
+				},
+			},
+			async (c) => {
+				return c.cookies.session;
+			},
+		);
+		const response = await endpoint({
+			headers: {
+				cookie: `session=${await signCookieValue("session-id", secret)}`,
+			},
+		});
+		expect(response).toBe("session-id");
+
+		await expect(
+			endpoint({
+				headers: {
+					cookie: `session=${await signCookieValue("session-id", "other-secret")}`,
+				},
+			}),
+		).rejects.toThrowError("[cookies.session] Invalid cookie signature");
+	});
+});
+
 describe("set-cookies", () => {
 	it("should set cookie", async () => {
 		const endpoint = createEndpoint(
@@ -1,8 +1,37 @@
-import { signCookieValue } from "./crypto";
+import { getCryptoKey, signCookieValue, verifySignature } from "./crypto";
+import type { StandardSchemaV1 } from "./standard-schema";
 import { tryDecode } from "./utils";
 
 export type CookiePrefixOptions = "host" | "secure";
 
+export type CookieDefinition = {
+	/**
+	 * Schema to validate the cookie value against
+	 *
+	 * The value will be `undefined` if the cookie is missing
+	 */
+	schema?: StandardSchemaV1;
+	/**
+	 * The prefix of the cookie between `__Secure-` and `__Host-`
+	 */
+	prefix?: CookiePrefixOptions;
+} & (
+	| {
+			signed?: false;
+	  }
+	| {
+			/**
+			 * If true the cookie signature will be verified and the value will
+			 * be the unsigned value
+			 */
+			signed: true;
+			/**
+			 * The secret the cookie was signed with
+			 */
+			secret: string;
+	  }
+);
+
 export type CookieOptions = {
 	/**
 	 * Domain of the cookie
@@ -104,6 +133,26 @@ export const getCookieKey = (key: string, prefix?: CookiePrefixOptions) => {
 	return finalKey;
 };
 
+/**
+ * Verify a signed cookie value
+ *
+ * @returns the unsigned value, null if the value isn't signed or false if the signature is invalid
+ */
+export const verifySignedCookieValue = async (value: string, secret: string) => {
+	const signatureStartPos = value.lastIndexOf(".");
+	if (signatureStartPos < 1) {
+		return null;
+	}
+	const signedValue = value.substring(0, signatureStartPos);
+	const signature = value.substring(signatureStartPos + 1);
+	if (signature.length !== 44 || !signature.endsWith("=")) {
+		return null;
+	}
+	const secretKey = await getCryptoKey(secret);
+	const isVerified = await verifySignature(signature, signedValue, secretKey);
+	return isVerified ? signedValue : false;
+};
+
 /**
  * Parse an HTTP Cookie header string and returning an object of all cookie
  * name-value pairs.
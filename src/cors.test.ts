@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import { createEndpoint } from "./endpoint";
+import { BetterCallError } from "./error";
+import { createRouter } from "./router";
+
+describe("cors", () => {
+	const getItem = createEndpoint("/item", { method: "GET" }, async () => {
+		return { id: 1 };
+	});
+	const updateItem = createEndpoint("/item", { method: "PUT" }, async (ctx) => {
+		throw ctx.error("FORBIDDEN");
+	});
+	const publicItem = createEndpoint(
+		"/public",
+		{
+			method: "GET",
+			metadata: {
+				cors: { origin: "*", credentials: false },
+			},
+		},
+		async () => "ok",
+	);
+	const internal = createEndpoint(
+		"/internal",
+		{
+			method: "GET",
+			metadata: {
+				cors: false,
+			},
+		},
+		async () => "ok",
+	);
+
+	const router = createRouter(
+		{ getItem, updateItem, publicItem, internal },
+		{
+			cors: {
+				origin: ["https://example.com", /\.example\.org$/],
+				credentials: true,
+				exposedHeaders: ["x-request-id"],
+				maxAge: 600,
+			},
+		},
+	);
+
+	it("should add CORS headers for allowed origins", async () => {
+		const response = await router.handler(
+			new Request("http://localhost/item", {
+				headers: { origin: "https://example.com" },
+			}),
+		);
+		expect(response.status).toBe(200);
+		expect(response.headers.get("access-control-allow-origin")).toBe("https://example.com");
+		expect(response.headers.get("access-control-allow-credentials")).toBe("true");
+		expect(response.headers.get("access-control-expose-headers")).toBe("x-request-id");
+		expect(response.headers.get("vary")).toBe("Origin");
+
+		const regex = await router.handler(
+			new Request("http://localhost/item", {
+				headers: { origin: "https://app.example.org" },
+			}),
+		);
+		expect(regex.headers.get("access-control-allow-origin")).toBe("https://app.example.org");
+	});
+
+	it("should not allow other origins but still vary on origin", async () => {
+		const response = await router.handler(
+			new Request("http://localhost/item", {
+				headers: { origin: "https://evil.com" },
+			}),
+		);
+		expect(response.headers.get("access-control-allow-origin")).toBeNull();
+		expect(response.headers.get("vary")).toBe("Origin");
+	});
+
+	it("should add CORS headers to error responses", async () => {
+		const response = await router.handler(
+			new Request("http://localhost/item", {
+				method: "PUT",
+				headers: { origin: "https://example.com" },
+			}),
+		);
+		expect(response.status).toBe(403);
+		expect(response.headers.get("access-control-allow-origin")).toBe("https://example.com");
+		expect(response.headers.get("vary")).toBe("Origin");
+	});
+
+	it("should answer preflight requests", async () => {
+		const response = await router.handler(
+			new Request("http://localhost/item", {
+				method: "OPTIONS",
+				headers: {
+					origin: "https://example.com",
+					"access-control-request-method": "PUT",
+					"access-control-request-headers": "content-type, x-custom",
+				},
+			}),
+		);
+		expect(response.status).toBe(204);
+		expect(response.headers.get("access-control-allow-origin")).toBe("https://example.com");
+		expect(response.headers.get("access-control-allow-methods")).toBe("GET, PUT, HEAD");
+		expect(response.headers.get("access-control-allow-headers")).toBe("content-type, x-custom");
+		expect(response.headers.get("access-control-max-age")).toBe("600");
+		expect(response.headers.get("vary")).toBe("Origin, Access-Control-Request-Headers");
+	});
+
+	it("should not allow preflight requests from other origins", async () => {
+		const response = await router.handler(
+			new Request("http://localhost/item", {
+				method: "OPTIONS",
+				headers: {
+					origin: "https://evil.com",
+					"access-control-request-method": "PUT",
+				},
+			}),
+		);
+		expect(response.status).toBe(204);
+		expect(response.headers.get("access-control-allow-origin")).toBeNull();
+		expect(response.headers.get("access-control-allow-methods")).toBeNull();
+	});
+
+	it("should let endpoints override or disable the router config", async () => {
+		const response = await router.handler(
+			new Request("http://localhost/public", {
+				headers: { origin: "https://evil.com" },
+			}),
+		);
+		expect(response.headers.get("access-control-allow-origin")).toBe("*");
+		expect(response.headers.get("access-control-allow-credentials")).toBeNull();
+		expect(response.headers.get("vary")).toBeNull();
+
+		const disabled = await router.handler(
+			new Request("http://localhost/internal", {
+				headers: { origin: "https://example.com" },
+			}),
+		);
+		expect(disabled.headers.get("access-control-allow-origin")).toBeNull();
+	});
+
+	it("should support an origin function", async () => {
+		const router = createRouter(
+			{ getItem },
+			{
+				cors: {
+					origin: (origin, request) =>
+						origin === `https://${request.headers.get("x-tenant")}.app.com`,
+				},
+			},
+		);
+		const response = await router.handler(
+			new Request("http://localhost/item", {
+				headers: { origin: "https://acme.app.com", "x-tenant": "acme" },
+			}),
+		);
+		expect(response.headers.get("access-control-allow-origin")).toBe("https://acme.app.com");
+	});
+
+	it("should not allow credentials for any origin", async () => {
+		expect(() => createRouter({ getItem }, { cors: { credentials: true } })).toThrowError(
+			BetterCallError,
+		);
+		const credentialed = createEndpoint(
+			"/credentialed",
+			{ method: "GET", metadata: { cors: { credentials: true } } },
+			async () => "ok",
+		);
+		expect(() => createRouter({ credentialed }, { cors: { origin: "*" } })).toThrowError(
+			BetterCallError,
+		);
+		expect(() =>
+			createRouter({ credentialed }, { cors: { origin: "https://example.com" } }),
+		).not.toThrow();
+	});
+
+	it("should keep the vary header set by the endpoint", async () => {
+		const endpoint = createEndpoint("/vary", { method: "GET" }, async (ctx) => {
+			ctx.setHeader("Vary", "Accept-Encoding");
+			return "ok";
+		});
+		const router = createRouter({ endpoint }, { cors: { origin: "https://example.com" } });
+		const response = await router.handler(
+			new Request("http://localhost/vary", {
+				headers: { origin: "https://example.com" },
+			}),
+		);
+		expect(response.headers.get("vary")).toBe("Accept-Encoding, Origin");
+	});
+});
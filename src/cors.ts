@@ -0,0 +1,136 @@
+import { BetterCallError } from "./error";
+import { appendVary } from "./utils";
+
+export interface CORSOptions {
+	/**
+	 * Origins allowed to make cross-origin requests
+	 *
+	 * `"*"` allows any origin. A list (of origins or regexes), a regex or a
+	 * function allow the matching origins, which are sent back in `Access-Control-Allow-Origin`.
+	 *
+	 * @default "*"
+	 */
+	origin?:
+		| string
+		| RegExp
+		| (string | RegExp)[]
+		| ((origin: string, request: Request) => boolean | Promise<boolean>);
+	/**
+	 * Allow cookies and authorization headers on cross-origin requests
+	 *
+	 * It requires an explicit `origin`, as allowing credentials for any origin
+	 * would let every site make authenticated requests.
+	 *
+	 * @default false
+	 */
+	credentials?: boolean;
+	/**
+	 * Request headers allowed in preflight requests
+	 *
+	 * Defaults to the headers the browser asks for in
+	 * `Access-Control-Request-Headers`.
+	 */
+	allowedHeaders?: string[];
+	/**
+	 * Response headers exposed to the browser
+	 */
+	exposedHeaders?: string[];
+	/**
+	 * How long, in seconds, the browser can cache a preflight response
+	 */
+	maxAge?: number;
+}
+
+/**
+ * Check the options allow credentials only for explicit origins
+ *
+ * @throws {BetterCallError} when `credentials` is set without an `origin` or with `"*"`
+ */
+export function validateCORSOptions(options: CORSOptions) {
+	if (options.credentials && (options.origin ?? "*") === "*") {
+		throw new BetterCallError(
+			"CORS credentials are not allowed with any origin, set `origin` to a list or a function",
+		);
+	}
+}
+
+async function isOriginAllowed(options: CORSOptions, origin: string, request: Request) {
+	const allowed = options.origin ?? "*";
+	if (allowed === "*") return true;
+	if (typeof allowed === "function") return await allowed(origin, request);
+	return [allowed]
+		.flat()
+		.some((value) => (value instanceof RegExp ? value.test(origin) : value === origin));
+}
+
+/**
+ * Get the CORS headers of the response to a request
+ *
+ * `Vary: Origin` is always set when the allowed origin depends on the
+ * request, so caches don't serve a response to the wrong origin.
+ */
+export async function getCORSHeaders(options: CORSOptions, request: Request) {
+	validateCORSOptions(options);
+	const headers = new Headers();
+	const reflect = options.origin !== undefined && options.origin !== "*";
+	if (reflect) {
+		headers.set("Vary", "Origin");
+	}
+	const origin = request.headers.get("origin");
+	if (!origin || !(await isOriginAllowed(options, origin, request))) {
+		return headers;
+	}
+	headers.set("Access-Control-Allow-Origin", reflect ? origin : "*");
+	if (options.credentials) {
+		headers.set("Access-Control-Allow-Credentials", "true");
+	}
+	if (options.exposedHeaders?.length) {
+		headers.set("Access-Control-Expose-Headers", options.exposedHeaders.join(", "));
+	}
+	return headers;
+}
+
+/**
+ * Get the headers of the response to a preflight request
+ *
+ * @param methods - The methods allowed on the requested path
+ */
+export async function getPreflightHeaders(
+	options: CORSOptions,
+	request: Request,
+	methods: string[],
+) {
+	const headers = await getCORSHeaders(options, request);
+	if (!headers.has("Access-Control-Allow-Origin")) {
+		return headers;
+	}
+	headers.delete("Access-Control-Expose-Headers");
+	headers.set("Access-Control-Allow-Methods", methods.join(", "));
+	const requestHeaders = request.headers.get("access-control-request-headers");
+	if (options.allowedHeaders) {
+		headers.set("Access-Control-Allow-Headers", options.allowedHeaders.join(", "));
+	} else if (requestHeaders) {
+		headers.set("Access-Control-Allow-Headers", requestHeaders);
+		appendVary(headers, "Access-Control-Request-Headers");
+	}
+	if (options.maxAge !== undefined) {
+		headers.set("Access-Control-Max-Age", String(options.maxAge));
+	}
+	return headers;
+}
+
+/**
+ * Apply CORS headers to a response
+ */
+export function applyCORSHeaders(response: Response, cors: Headers) {
+	cors.forEach((value, key) => {
+		if (key === "vary") {
+			for (const name of value.split(",")) {
+				appendVary(response.headers, name.trim());
+			}
+			return;
+		}
+		response.headers.set(key, value);
+	});
+	return response;
+}
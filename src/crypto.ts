@@ -48,3 +48,14 @@ export const signCookieValue = async (value: string, secret: string | BufferSour
 	value = encodeURIComponent(value);
 	return value;
 };
+
+/**
+ * Hex encoded SHA-256 digest of a value
+ */
+export const sha256 = async (value: string | BufferSource) => {
+	const data = typeof value === "string" ? new TextEncoder().encode(value) : value;
+	const digest = await getWebcryptoSubtle().digest("SHA-256", data);
+	return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join(
+		"",
+	);
+};
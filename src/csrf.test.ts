@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { createCSRFToken } from "./csrf";
+import { createEndpoint } from "./endpoint";
+import { createRouter } from "./router";
+
+describe("csrf", () => {
+	const update = createEndpoint("/update", { method: "POST" }, async () => {
+		return { updated: true };
+	});
+	const read = createEndpoint("/read", { method: "GET" }, async () => "ok");
+	const webhook = createEndpoint(
+		"/webhook",
+		{
+			method: "POST",
+			metadata: {
+				csrf: false,
+			},
+		},
+		async () => "ok",
+	);
+	const router = createRouter(
+		{ update, read, webhook },
+		{
+			csrf: {
+				trustedOrigins: ["https://app.example.com", /\.example\.org$/],
+			},
+		},
+	);
+
+	const post = (path: string, headers: Record<string, string>) =>
+		router.handler(new Request(`http://localhost${path}`, { method: "POST", headers }));
+
+	it("should allow same-origin and trusted requests", async () => {
+		expect((await post("/update", { origin: "http://localhost" })).status).toBe(200);
+		expect((await post("/update", { origin: "https://app.example.com" })).status).toBe(200);
+		expect((await post("/update", { origin: "https://www.example.org" })).status).toBe(200);
+		expect((await post("/update", { referer: "http://localhost/settings" })).status).toBe(200);
+		expect((await post("/update", { "sec-fetch-site": "same-origin" })).status).toBe(200);
+	});
+
+	it("should reject cross-site requests", async () => {
+		const response = await post("/update", { origin: "https://evil.com" });
+		expect(response.status).toBe(403);
+		expect(await response.json()).toMatchObject({
+			code: "CSRF_ORIGIN_MISMATCH",
+		});
+		expect((await post("/update", { referer: "https://evil.com/page" })).status).toBe(403);
+		expect((await post("/update", { "sec-fetch-site": "cross-site" })).status).toBe(403);
+		expect(
+			(
+				await post("/update", {
+					"sec-fetch-site": "same-site",
+					origin: "https://other.example.com",
+				})
+			).status,
+		).toBe(403);
+	});
+
+	it("should allow requests that don't come from a browser", async () => {
+		expect((await post("/update", {})).status).toBe(200);
+	});
+
+	it("should not check safe methods or disabled endpoints", async () => {
+		const response = await router.handler(
+			new Request("http://localhost/read", { headers: { origin: "https://evil.com" } }),
+		);
+		expect(response.status).toBe(200);
+		expect((await post("/webhook", { origin: "https://evil.com" })).status).toBe(200);
+	});
+
+	describe("double-submit token", () => {
+		const router = createRouter(
+			{ update },
+			{
+				csrf: {
+					token: { secret: "secret" },
+				},
+			},
+		);
+		const post = (headers: Record<string, string>) =>
+			router.handler(
+				new Request("http://localhost/update", {
+					method: "POST",
+					headers: { origin: "http://localhost", ...headers },
+				}),
+			);
+
+		it("should accept a matching signed token", async () => {
+			const token = await createCSRFToken("secret");
+			const response = await post({
+				cookie: `csrf_token=${token}`,
+				"x-csrf-token": token,
+			});
+			expect(response.status).toBe(200);
+		});
+
+		it("should reject missing tokens", async () => {
+			const response = await post({});
+			expect(response.status).toBe(403);
+			expect(await response.json()).toMatchObject({ code: "CSRF_TOKEN_MISSING" });
+		});
+
+		it("should reject mismatched or forged tokens", async () => {
+			const token = await createCSRFToken("secret");
+			const other = await createCSRFToken("secret");
+			const mismatch = await post({
+				cookie: `csrf_token=${token}`,
+				"x-csrf-token": other,
+			});
+			expect(mismatch.status).toBe(403);
+			expect(await mismatch.json()).toMatchObject({ code: "CSRF_TOKEN_INVALID" });
+
+			const forged = await createCSRFToken("another-secret");
+			const response = await post({
+				cookie: `csrf_token=${forged}`,
+				"x-csrf-token": forged,
+			});
+			expect(response.status).toBe(403);
+		});
+	});
+});
@@ -0,0 +1,120 @@
+import { parseCookies, verifySignedCookieValue } from "./cookies";
+import { signCookieValue } from "./crypto";
+import { APIError } from "./error";
+
+export interface CSRFOptions {
+	/**
+	 * Origins allowed to send requests besides the origin of the server
+	 */
+	trustedOrigins?: (string | RegExp)[];
+	/**
+	 * Methods that are protected
+	 *
+	 * @default ["POST", "PUT", "PATCH", "DELETE"]
+	 */
+	methods?: string[];
+	/**
+	 * Double-submit token
+	 *
+	 * If enabled, protected requests must also send the value of the token
+	 * cookie in the token header. Tokens are created with `createCSRFToken`
+	 * and signed with the secret.
+	 */
+	token?: {
+		secret: string;
+		/**
+		 * @default "csrf_token"
+		 */
+		cookie?: string;
+		/**
+		 * @default "x-csrf-token"
+		 */
+		header?: string;
+	};
+}
+
+export type CSRFErrorCode = "CSRF_ORIGIN_MISMATCH" | "CSRF_TOKEN_MISSING" | "CSRF_TOKEN_INVALID";
+
+const csrfError = (code: CSRFErrorCode, message: string) =>
+	new APIError("FORBIDDEN", {
+		message,
+		code,
+	});
+
+/**
+ * Create a signed token for the double-submit token mode
+ *
+ * The token should be set as a cookie that the client can read, and sent
+ * back in the token header.
+ *
+ * @example
+ * ```ts
+ * ctx.setCookie("csrf_token", await createCSRFToken(secret), { sameSite: "strict" });
+ * ```
+ */
+export async function createCSRFToken(secret: string) {
+	const bytes = crypto.getRandomValues(new Uint8Array(32));
+	const value = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+	return signCookieValue(value, secret);
+}
+
+function getRequestOrigin(request: Request) {
+	const origin = request.headers.get("origin");
+	if (origin) return origin;
+	const referer = request.headers.get("referer");
+	if (!referer) return null;
+	try {
+		return new URL(referer).origin;
+	} catch {
+		return "null";
+	}
+}
+
+function isTrustedOrigin(options: CSRFOptions, origin: string, request: Request) {
+	if (origin === new URL(request.url).origin) return true;
+	return (options.trustedOrigins || []).some((trusted) =>
+		trusted instanceof RegExp ? trusted.test(origin) : trusted === origin,
+	);
+}
+
+function decode(value: string) {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
+
+/**
+ * Verify that a request isn't a cross-site request forgery
+ *
+ * `Sec-Fetch-Site` is trusted first. Otherwise the `Origin` (or `Referer`)
+ * of the request must be the origin of the server or a trusted origin.
+ * Requests without any of these headers don't come from a browser and are
+ * allowed.
+ *
+ * @throws {APIError} `403 Forbidden` if the request is rejected
+ */
+export async function verifyCSRF(options: CSRFOptions, request: Request) {
+	const methods = options.methods || ["POST", "PUT", "PATCH", "DELETE"];
+	if (!methods.includes(request.method.toUpperCase())) return;
+
+	const site = request.headers.get("sec-fetch-site");
+	if (site !== "same-origin" && site !== "none") {
+		const origin = getRequestOrigin(request);
+		if (origin ? !isTrustedOrigin(options, origin, request) : site) {
+			throw csrfError("CSRF_ORIGIN_MISMATCH", "Cross-site request rejected");
+		}
+	}
+
+	if (!options.token) return;
+	const cookie = options.token.cookie || "csrf_token";
+	const header = request.headers.get(options.token.header || "x-csrf-token");
+	const token = parseCookies(request.headers.get("cookie") || "").get(cookie);
+	if (!header || !token) {
+		throw csrfError("CSRF_TOKEN_MISSING", "CSRF token is missing");
+	}
+	if (decode(header) !== token || !(await verifySignedCookieValue(token, options.token.secret))) {
+		throw csrfError("CSRF_TOKEN_INVALID", "CSRF token is invalid");
+	}
+}
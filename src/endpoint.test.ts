@@ -1,8 +1,9 @@
-import { describe, expect, expectTypeOf, it } from "vitest";
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
 import { createEndpoint } from "./endpoint";
 import { z } from "zod";
 import { APIError, BetterCallError } from "./error";
 import { createMiddleware } from "./middleware";
+import { createRouter } from "./router";
 import * as v from "valibot";
 
 describe("validation", (it) => {
@@ -95,6 +96,79 @@ describe("validation", (it) => {
 		expect(response.name).toBe("test-validated");
 	});
 
+	it("should validate params and throw validation error", async () => {
+		const endpoint = createEndpoint(
+			"/user/:id",
+			{
+				method: "GET",
+				params: z.object({
+					id: z.uuid(),
+				}),
+			},
+			async (ctx) => {
+				return ctx.params;
+			},
+		);
+
+		await expect(
+			endpoint({
+				params: { id: "1" },
+			}),
+		).rejects.toThrowError("[params.id] Invalid UUID");
+
+		let onValidationErrorCalled = false;
+		const withCallback = createEndpoint(
+			"/user/:id",
+			{
+				method: "GET",
+				params: z.object({
+					id: z.uuid(),
+				}),
+				onValidationError: () => {
+					onValidationErrorCalled = true;
+				},
+			},
+			async (ctx) => {
+				return ctx.params;
+			},
+		);
+		await withCallback({ params: { id: "1" } }).catch(() => {});
+		expect(onValidationErrorCalled).toBe(true);
+	});
+
+	it("should validate headers against the headers schema", async () => {
+		const endpoint = createEndpoint(
+			"/test",
+			{
+				method: "GET",
+				headers: z.object({
+					"x-api-version": z.enum(["1", "2"]),
+				}),
+			},
+			async (ctx) => {
+				expectTypeOf(ctx.headers).toEqualTypeOf<{ "x-api-version": "1" | "2" }>();
+				return ctx.headers;
+			},
+		);
+
+		const response = await endpoint({
+			headers: new Headers({
+				"X-Api-Version": "2",
+				"x-other": "ignored",
+			}),
+		});
+		expect(response).toEqual({ "x-api-version": "2" });
+
+		await expect(
+			endpoint({
+				headers: {
+					//@ts-expect-error
+					"x-api-version": "3",
+				},
+			}),
+		).rejects.toThrowError("[headers.x-api-version]");
+	});
+
 	it("should throw BetterCallError if body is not allowed with GET or HEAD", async () => {
 		expect(() =>
 			createEndpoint(
@@ -312,6 +386,23 @@ describe("types", async () => {
 		);
 	});
 
+	it("params schema", async () => {
+		const endpoint = createEndpoint(
+			"/user/:id",
+			{
+				method: "GET",
+				params: z.object({
+					id: z.coerce.number(),
+				}),
+			},
+			async (ctx) => {
+				expectTypeOf(ctx.params).toEqualTypeOf<{ id: number }>();
+				return ctx.params;
+			},
+		);
+		const response = await endpoint({ params: { id: "1" } });
+		expect(response).toEqual({ id: 1 });
+	});
 	it("wildcard params", async () => {
 		createEndpoint(
 			"/api/*",
@@ -389,6 +480,24 @@ describe("types", async () => {
 		expectTypeOf(objResponse1).toEqualTypeOf<Response>();
 	});
 
+	it("error", async () => {
+		createEndpoint(
+			"/test",
+			{
+				method: "POST",
+				error: z.object({
+					message: z.string(),
+					code: z.enum(["NOT_FOUND", "FORBIDDEN"]),
+				}),
+			},
+			async (ctx) => {
+				ctx.error("FORBIDDEN", { message: "Forbidden", code: "FORBIDDEN" });
+				//@ts-expect-error
+				ctx.error("FORBIDDEN", { message: "Forbidden", code: "UNKNOWN" });
+			},
+		);
+	});
+
 	it("shouldn't allow GET or HEAD with body", async () => {
 		try {
 			createEndpoint(
@@ -910,6 +1019,61 @@ describe("creator", () => {
 			test: "payload",
 		});
 	});
+
+	it("should type the router context", async () => {
+		const creator = createEndpoint.create({
+			context: {} as { db: { name: string } },
+		});
+		const endpoint = creator(
+			"/path",
+			{
+				method: "GET",
+			},
+			async (c) => {
+				expectTypeOf(c.context).toEqualTypeOf<{ db: { name: string } }>();
+				return c.context.db.name;
+			},
+		);
+		//@ts-expect-error
+		await endpoint({ asResponse: true }).catch(() => {});
+		const response = await endpoint({
+			context: {
+				db: { name: "memory" },
+			},
+		});
+		expectTypeOf(response).toEqualTypeOf<string>();
+		expect(response).toBe("memory");
+
+		const router = createRouter(
+			{ endpoint },
+			{
+				routerContext: {
+					db: { name: "router" },
+				},
+			},
+		);
+		const res = await router.handler(new Request("http://localhost/path"));
+		expect(await res.text()).toBe("router");
+	});
+
+	it("should type the router context from $Infer", async () => {
+		const endpoint = createEndpoint(
+			"/path",
+			{
+				method: "GET",
+				metadata: {
+					$Infer: {
+						context: {} as { user: string },
+					},
+				},
+			},
+			async (c) => {
+				expectTypeOf(c.context).toEqualTypeOf<{ user: string }>();
+				return c.context.user;
+			},
+		);
+		expect(await endpoint({ context: { user: "john" } })).toBe("john");
+	});
 });
 
 describe("onAPIError", () => {
@@ -933,3 +1097,168 @@ describe("onAPIError", () => {
 		expect(error?.status).toBe("UNAUTHORIZED");
 	});
 });
+
+describe("response schema", () => {
+	it("should strip fields not declared in the response schema", async () => {
+		const endpoint = createEndpoint(
+			"/user",
+			{
+				method: "GET",
+				response: z.object({
+					id: z.string(),
+				}),
+			},
+			async () => {
+				return { id: "1", password: "secret" };
+			},
+		);
+		const response = await endpoint();
+		expectTypeOf(response).toEqualTypeOf<{ id: string }>();
+		expect(response).toEqual({ id: "1" });
+	});
+
+	it("should throw a 500 error if the response doesn't match the schema", async () => {
+		const endpoint = createEndpoint(
+			"/user",
+			{
+				method: "GET",
+				response: z.object({
+					id: z.string(),
+				}),
+			},
+			//@ts-expect-error
+			async () => {
+				return { id: 1 };
+			},
+		);
+		const error = await endpoint().catch((e) => e);
+		expect(error).toBeInstanceOf(APIError);
+		expect(error.statusCode).toBe(500);
+		expect(error.body.code).toBe("RESPONSE_VALIDATION_ERROR");
+	});
+
+	it("should validate ctx.json responses", async () => {
+		const endpoint = createEndpoint(
+			"/user",
+			{
+				method: "GET",
+				response: z.object({
+					id: z.string(),
+				}),
+			},
+			async (ctx) => {
+				return ctx.json({ id: "1", internal: true });
+			},
+		);
+		const response = await endpoint({ asResponse: true });
+		expect(await response.json()).toEqual({ id: "1" });
+	});
+
+	it("should pick the schema matching the response status", async () => {
+		const endpoint = createEndpoint(
+			"/user",
+			{
+				method: "POST",
+				responses: {
+					200: z.object({ id: z.string() }),
+					201: z.object({ id: z.string(), created: z.boolean() }),
+				},
+			},
+			async (ctx) => {
+				ctx.setStatus(201);
+				return { id: "1", created: true, internal: true };
+			},
+		);
+		const response = await endpoint({ returnStatus: true });
+		expectTypeOf(response.response).toEqualTypeOf<
+			{ id: string } | { id: string; created: boolean }
+		>();
+		expect(response).toEqual({ status: 201, response: { id: "1", created: true } });
+	});
+
+	it("should skip validation for Response objects", async () => {
+		const endpoint = createEndpoint(
+			"/user",
+			{
+				method: "GET",
+				response: z.object({
+					id: z.string(),
+				}),
+			},
+			async () => {
+				return new Response("ok");
+			},
+		);
+		const response = await endpoint();
+		expect(await response.text()).toBe("ok");
+	});
+});
+
+describe("signal", () => {
+	it("should abort the handler and throw a 504 error when the timeout is reached", async () => {
+		let signal: AbortSignal | undefined;
+		const endpoint = createEndpoint(
+			"/slow",
+			{
+				method: "GET",
+				timeout: 10,
+			},
+			async (ctx) => {
+				signal = ctx.signal;
+				await new Promise((resolve) => setTimeout(resolve, 100));
+				return "done";
+			},
+		);
+		const error = await endpoint().catch((e) => e);
+		expect(error).toBeInstanceOf(APIError);
+		expect(error.statusCode).toBe(504);
+		expect(signal?.aborted).toBe(true);
+
+		const response = await endpoint({ asResponse: true });
+		expect(response.status).toBe(504);
+	});
+
+	it("should use the signal passed on direct invocation", async () => {
+		const controller = new AbortController();
+		const endpoint = createEndpoint(
+			"/slow",
+			{
+				method: "GET",
+			},
+			async (ctx) => {
+				expectTypeOf(ctx.signal).toEqualTypeOf<AbortSignal>();
+				setTimeout(() => controller.abort(), 10);
+				await new Promise((resolve) => setTimeout(resolve, 100));
+				return ctx.signal.aborted;
+			},
+		);
+		await expect(endpoint({ signal: controller.signal })).rejects.toThrowError(
+			"This operation was aborted",
+		);
+	});
+
+	it("should remove the abort listener once the handler settles", async () => {
+		const controller = new AbortController();
+		const added = vi.spyOn(controller.signal, "addEventListener");
+		const removed = vi.spyOn(controller.signal, "removeEventListener");
+		const endpoint = createEndpoint("/fast", { method: "GET" }, async () => "ok");
+		for (let i = 0; i < 3; i++) {
+			await endpoint({ signal: controller.signal });
+		}
+		expect(added).toHaveBeenCalledTimes(3);
+		expect(removed).toHaveBeenCalledTimes(3);
+	});
+
+	it("should provide a signal that isn't aborted by default", async () => {
+		const endpoint = createEndpoint(
+			"/fast",
+			{
+				method: "GET",
+			},
+			async (ctx) => {
+				return ctx.signal.aborted;
+			},
+		);
+		expect(await endpoint()).toBe(false);
+	});
+});
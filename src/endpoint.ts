@@ -1,33 +1,141 @@
 import type { HasRequiredKeys, Prettify } from "./helper";
-import { toResponse } from "./to-response";
+import { isJSONResponse, toResponse } from "./to-response";
 import type { Middleware } from "./middleware";
 import {
 	createInternalContext,
 	type InferBody,
+	type InferCookies,
+	type InferErrorInput,
+	type InferEventsInput,
 	type InferHeaders,
 	type InferMethod,
 	type InferParam,
 	type InferQuery,
 	type InferRequest,
+	type InferResponse,
+	type InferResponseInput,
+	type InferRouterContext,
+	type InferRouterMiddleware,
 	type InferUse,
 	type InputContext,
 	type Method,
 } from "./context";
-import type { CookieOptions, CookiePrefixOptions } from "./cookies";
+import type { CORSOptions } from "./cors";
+import type { CSRFOptions } from "./csrf";
+import type { CookieDefinition, CookieOptions, CookiePrefixOptions } from "./cookies";
+import { type IdempotencyOptions, startIdempotentRequest } from "./idempotency";
 import { APIError, ValidationError, type statusCodes, type Status, BetterCallError } from "./error";
 import type { OpenAPIParameter, OpenAPISchemaType } from "./openapi";
+import type { RouterMiddleware } from "./router";
 import type { StandardSchemaV1 } from "./standard-schema";
-import { isAPIError, tryCatch } from "./utils";
+import { createSingleFlight, getSingleFlightKey, type SingleFlightOptions } from "./single-flight";
+import type { SSEOptions, SSEStream } from "./sse";
+import { withSpan } from "./tracing";
+import { isAPIError, isAroundMiddleware, raceAbort, tryCatch } from "./utils";
+import { runResponseValidation } from "./validator";
 
 export interface EndpointBaseOptions {
 	/**
 	 * Query Schema
 	 */
 	query?: StandardSchemaV1;
+	/**
+	 * Params Schema
+	 *
+	 * Validates and coerces the path params matched by the router. For
+	 * example `/user/:id` can be parsed into a number.
+	 */
+	params?: StandardSchemaV1;
 	/**
 	 * Error Schema
+	 *
+	 * Describes the body of the errors returned through `ctx.error`. It's
+	 * used to type the error body, to generate the Open API error responses
+	 * and to infer the error type on the client.
 	 */
 	error?: StandardSchemaV1;
+	/**
+	 * Response Schema
+	 *
+	 * The value returned from the handler will be validated against this
+	 * schema and replaced with the parsed output before it's sent.
+	 */
+	response?: StandardSchemaV1;
+	/**
+	 * Response Schemas by status code
+	 *
+	 * The schema matching the status set through `ctx.setStatus` (or `200`
+	 * when no status is set) takes precedence over `response`.
+	 *
+	 * @example
+	 * ```ts
+	 * const endpoint = createEndpoint("/item", {
+	 * 		method: "POST",
+	 * 		responses: {
+	 * 			200: z.object({ id: z.string() }),
+	 * 			201: z.object({ id: z.string(), created: z.literal(true) }),
+	 * 		},
+	 * 	}, async(ctx)=>{
+	 * 		ctx.setStatus(201);
+	 * 		return { id: "1", created: true };
+	 * 	})
+	 * ```
+	 */
+	responses?: Record<number, StandardSchemaV1>;
+	/**
+	 * Headers Schema
+	 *
+	 * Validates the request headers. Header names are lower-cased before
+	 * validation and `ctx.headers` will be the parsed output of the schema.
+	 */
+	headers?: StandardSchemaV1;
+	/**
+	 * Cookies Schema
+	 *
+	 * Declares the cookies the endpoint expects. Each cookie is read from the
+	 * request (verifying its signature if it's signed), validated against its
+	 * schema and exposed on `ctx.cookies`.
+	 *
+	 * @example
+	 * ```ts
+	 * const endpoint = createEndpoint("/path", {
+	 * 		method: "GET",
+	 * 		cookies: {
+	 * 			session: {
+	 * 				schema: z.string(),
+	 * 				prefix: "secure",
+	 * 				signed: true,
+	 * 				secret: "secret",
+	 * 			},
+	 * 		},
+	 * 	}, async(ctx)=>{
+	 * 		const session = ctx.cookies.session
+	 * 	})
+	 * ```
+	 */
+	cookies?: Record<string, CookieDefinition>;
+	/**
+	 * Server-Sent Events Schema
+	 *
+	 * A map of event names to the schema of their data. Events sent through
+	 * `ctx.sse` will be validated against the schema of the event.
+	 *
+	 * @example
+	 * ```ts
+	 * const endpoint = createEndpoint("/progress", {
+	 * 		method: "GET",
+	 * 		events: {
+	 * 			progress: z.object({ percent: z.number() }),
+	 * 			done: z.object({ url: z.string() }),
+	 * 		},
+	 * 	}, async(ctx)=>{
+	 * 		return ctx.sse(async (stream) => {
+	 * 			await stream.send({ event: "progress", data: { percent: 50 } });
+	 * 		})
+	 * 	})
+	 * ```
+	 */
+	events?: Record<string, StandardSchemaV1>;
 	/**
 	 * If true headers will be required to be passed in the context
 	 */
@@ -44,6 +152,11 @@ export interface EndpointBaseOptions {
 	 * If true the body will be undefined
 	 */
 	disableBody?: boolean;
+	/**
+	 * Time in milliseconds after which the handler is aborted and a
+	 * `504 Gateway Timeout` error is returned
+	 */
+	timeout?: number;
 	/**
 	 * Endpoint metadata
 	 */
@@ -130,6 +243,14 @@ export interface EndpointBaseOptions {
 			 * Query
 			 */
 			query?: Record<string, any>;
+			/**
+			 * Router context
+			 *
+			 * The type of the `routerContext` the endpoint runs with. It's
+			 * added to `ctx.context` and direct invocations will be required
+			 * to pass it.
+			 */
+			context?: Record<string, any>;
 		};
 		/**
 		 * If enabled, endpoint won't be exposed over a router
@@ -167,6 +288,47 @@ export interface EndpointBaseOptions {
 		 * ```
 		 */
 		allowedMediaTypes?: string[];
+		/**
+		 * CORS configuration of the endpoint
+		 *
+		 * Merged over the `cors` option of the router. `false` disables CORS
+		 * for the endpoint.
+		 */
+		cors?: CORSOptions | false;
+		/**
+		 * CSRF protection of the endpoint
+		 *
+		 * Merged over the `csrf` option of the router. `false` disables CSRF
+		 * protection for the endpoint.
+		 */
+		csrf?: CSRFOptions | false;
+		/**
+		 * Idempotency keys for the unsafe methods of the endpoint
+		 *
+		 * The first response for an `Idempotency-Key` is stored and replayed
+		 * for the repeated requests. Only applies to requests handled as a
+		 * response, like through the router.
+		 */
+		idempotency?: IdempotencyOptions | boolean;
+		/**
+		 * Generate an `ETag` from the body of the responses
+		 *
+		 * Overrides the `etag` option of the router.
+		 */
+		etag?: boolean;
+		/**
+		 * Share a single execution of the handler between concurrent
+		 * identical GET requests
+		 *
+		 * Requests are identical when their path, query, the listed headers
+		 * (`Authorization` and `Cookie` by default) and the `key` derived from
+		 * the context match. Each caller runs its own middlewares and hooks,
+		 * and gets its own `Response`. The cookies set by the handler are only
+		 * sent to the caller that ran it. A caller whose signal is aborted stops
+		 * waiting, `ctx.signal` of the shared handler is only aborted once
+		 * every caller is gone.
+		 */
+		singleFlight?: SingleFlightOptions | boolean;
 		/**
 		 * Extra metadata
 		 */
@@ -270,9 +432,10 @@ export type EndpointContext<Path extends string, Options extends EndpointOptions
 	 * If the path is `/user/:id` and the request is `/user/1` then the params will
 	 * be `{ id: "1" }` and if the path includes a wildcard like `/user/*` then the
 	 * params will be `{ _: "1" }` where `_` is the wildcard key. If the wildcard
-	 * is named like `/user/**:name` then the params will be `{ name: string }`
+	 * is named like `/user/**:name` then the params will be `{ name: string }`.
+	 * If a params schema is provided the params will be validated against it
 	 */
-	params: InferParam<Path>;
+	params: InferParam<Path, Options>;
 	/**
 	 * Request object
 	 *
@@ -284,9 +447,24 @@ export type EndpointContext<Path extends string, Options extends EndpointOptions
 	 * Headers
 	 *
 	 * If `requireHeaders` is set to true in the endpoint options this will be
-	 * required
+	 * required. If a headers schema is provided this will be the validated
+	 * headers object
 	 */
 	headers: InferHeaders<Options>;
+	/**
+	 * Abort signal
+	 *
+	 * Aborted when the request is aborted by the client, the endpoint or
+	 * router timeout is reached, or the signal passed on direct invocation
+	 * is aborted
+	 */
+	signal: AbortSignal;
+	/**
+	 * Cookies
+	 *
+	 * The validated values of the cookies declared in the `cookies` option
+	 */
+	cookies: InferCookies<Options>;
 	/**
 	 * Set header
 	 *
@@ -297,6 +475,25 @@ export type EndpointContext<Path extends string, Options extends EndpointOptions
 	 * Set the response status code
 	 */
 	setStatus: (status: Status) => void;
+	/**
+	 * Set the `ETag` of the response
+	 *
+	 * For `PUT`, `PATCH` and `DELETE` requests the first call checks the
+	 * `If-Match` header against it, and throws a `412 Precondition Failed`
+	 * error when it doesn't match. Call it with the current tag before
+	 * modifying the resource, then again with the tag of the new version.
+	 *
+	 * @param etag - The entity tag, quoted if it isn't already
+	 */
+	setETag: (etag: string, options?: { weak?: boolean }) => void;
+	/**
+	 * Set the `Last-Modified` date of the response
+	 *
+	 * For `PUT`, `PATCH` and `DELETE` requests the first call checks the
+	 * `If-Unmodified-Since` header against it, and throws a
+	 * `412 Precondition Failed` error when the resource was modified since.
+	 */
+	setLastModified: (date: Date | string | number) => void;
 	/**
 	 * Get header
 	 *
@@ -377,23 +574,36 @@ export type EndpointContext<Path extends string, Options extends EndpointOptions
 			  }
 			| Response,
 	) => Promise<R>;
+	/**
+	 * Server-Sent Events
+	 *
+	 * Returns a `text/event-stream` response. The stream is closed when the
+	 * handler resolves, when `stream.close()` is called or when the request
+	 * is aborted.
+	 *
+	 * @param handler - The function that sends events to the stream
+	 * @param options - Retry and heartbeat options
+	 */
+	sse: (
+		handler: (stream: SSEStream<InferEventsInput<Options>>) => void | Promise<void>,
+		options?: SSEOptions,
+	) => Response;
 	/**
 	 * Middleware context
 	 */
-	context: Prettify<Context & InferUse<Options["use"]>>;
+	context: Prettify<Context & InferRouterContext<Options> & InferUse<Options["use"]>>;
 	/**
 	 * Redirect to a new URL
 	 */
 	redirect: (url: string) => APIError;
 	/**
 	 * Return error
+	 *
+	 * If an error schema is provided the body will be typed against it
 	 */
 	error: (
 		status: keyof typeof statusCodes | Status,
-		body?: {
-			message?: string;
-			code?: string;
-		} & Record<string, any>,
+		body?: InferErrorInput<Options>,
 		headers?: HeadersInit,
 	) => APIError;
 };
@@ -402,16 +612,23 @@ type EndpointHandler<Path extends string, Options extends EndpointOptions, R> =
 	context: EndpointContext<Path, Options>,
 ) => Promise<R>;
 
-export function createEndpoint<Path extends string, Options extends EndpointOptions, R>(
+export function createEndpoint<
+	Path extends string,
+	Options extends EndpointOptions,
+	R extends InferResponseInput<Options>,
+>(
 	path: Path,
 	options: Options,
 	handler: EndpointHandler<Path, Options, R>,
-): StrictEndpoint<Path, Options, R>;
+): StrictEndpoint<Path, Options, InferResponse<Options, R>>;
 
-export function createEndpoint<Options extends EndpointOptions, R>(
+export function createEndpoint<
+	Options extends EndpointOptions,
+	R extends InferResponseInput<Options>,
+>(
 	options: Options,
 	handler: EndpointHandler<never, Options, R>,
-): StrictEndpoint<never, Options, R>;
+): StrictEndpoint<never, Options, InferResponse<Options, R>>;
 
 export function createEndpoint<Path extends string, Options extends EndpointOptions, R>(
 	pathOrOptions: Path | Options,
@@ -457,6 +674,26 @@ export function createEndpoint<Path extends string, Options extends EndpointOpti
 					}
 				: Awaited<R>;
 
+	const singleFlight = createSingleFlight();
+	const validateResponse = async (response: any, status?: number) => {
+		if (isAPIError(response) || response instanceof Response) {
+			return response;
+		}
+		const isJSON = isJSONResponse(response);
+		const { data, error } = await runResponseValidation(
+			options,
+			isJSON ? response.body : response,
+			status,
+		);
+		if (error) {
+			throw new APIError(500, {
+				message: error.message,
+				code: "RESPONSE_VALIDATION_ERROR",
+			});
+		}
+		return isJSON ? { ...response, body: data } : data;
+	};
+
 	const internalHandler = async <
 		AsResponse extends boolean = false,
 		ReturnHeaders extends boolean = false,
@@ -504,41 +741,176 @@ export function createEndpoint<Path extends string, Options extends EndpointOpti
 				code: "VALIDATION_ERROR",
 			});
 		}
-		const response = await handler(internalContext as any).catch(async (e) => {
-			if (isAPIError(e)) {
-				const onAPIError = options.onAPIError;
-				if (onAPIError) {
-					await onAPIError(e);
+		const idempotencyOptions = options.metadata?.idempotency;
+		const idempotency =
+			context.asResponse && idempotencyOptions && !internalContext.returned
+				? await startIdempotentRequest(
+						idempotencyOptions === true ? {} : idempotencyOptions,
+						internalContext as any,
+					)
+				: undefined;
+		if (idempotency && "replay" in idempotency) {
+			return idempotency.replay as ResultType<AsResponse, ReturnHeaders, ReturnStatus>;
+		}
+		const tracer = context.tracer;
+		const attributes = {
+			"http.route": path,
+			"http.request.method": internalContext.method,
+		};
+		const singleFlightOptions = options.metadata?.singleFlight;
+		const flightKey =
+			singleFlightOptions &&
+			!internalContext.returned &&
+			(internalContext.method === "GET" || internalContext.method === "HEAD")
+				? await getSingleFlightKey(
+						singleFlightOptions === true ? {} : singleFlightOptions,
+						internalContext as any,
+					)
+				: undefined;
+		/**
+		 * Only the handler is shared, each caller runs its own middlewares and
+		 * hooks before joining the execution
+		 */
+		const shareHandler = async (
+			key: string,
+			callHandler: (signal: AbortSignal) => Promise<unknown>,
+		) => {
+			const { response, headers, status, shared } = await singleFlight(
+				key,
+				internalContext.responseHeaders,
+				internalContext.signal,
+				async (signal) => ({
+					response: await callHandler(signal),
+					status: internalContext.responseStatus,
+				}),
+			);
+			if (shared) {
+				headers.forEach((value, key) => {
+					internalContext.responseHeaders.set(key, value);
+				});
+				if (status) {
+					internalContext.setStatus(status);
+				}
+			}
+			return response;
+		};
+		const aroundMiddlewares = (options.use || []).filter(isAroundMiddleware);
+		const run = async (index: number): Promise<any> => {
+			const middleware = aroundMiddlewares[index];
+			if (!middleware) {
+				for (const before of context.hooks?.before || []) {
+					await before(internalContext as any);
 				}
-				if (context.asResponse) {
-					return e;
+				// a shared handler gets a signal aborted once all of its callers are gone
+				const callHandler = (signal: AbortSignal) =>
+					withSpan(tracer, "handler", attributes, () =>
+						raceAbort(
+							handler(
+								(signal === internalContext.signal
+									? internalContext
+									: { ...internalContext, signal }) as any,
+							),
+							signal,
+						),
+					);
+				const result =
+					flightKey === undefined
+						? await callHandler(internalContext.signal)
+						: await shareHandler(flightKey, callHandler);
+				let response = await validateResponse(result, internalContext.responseStatus);
+				for (const after of context.hooks?.after || []) {
+					const value = await after(internalContext as any, response);
+					if (value !== undefined) {
+						response = value;
+					}
 				}
+				return response;
+			}
+			const { response, headers, status } = (await withSpan(
+				tracer,
+				"middleware",
+				{ ...attributes, "better-call.middleware.index": index },
+				() =>
+					middleware({
+						...internalContext,
+						headers: context?.headers,
+						returnHeaders: true,
+						asResponse: false,
+						endpointState: {
+							asResponse: context.asResponse,
+							get headers() {
+								return internalContext.responseHeaders;
+							},
+							get status() {
+								return internalContext.responseStatus;
+							},
+						},
+						next: () => run(index + 1),
+					}),
+			)) as {
+				response: any;
+				headers: Headers;
+				status?: Status;
+			};
+			headers.forEach((value, key) => {
+				internalContext.responseHeaders.set(key, value);
+			});
+			if (status) {
+				internalContext.setStatus(status);
 			}
-			throw e;
-		});
+			return response;
+		};
+		const response =
+			internalContext.returned ??
+			(await run(0).catch(async (e) => {
+				if (e instanceof DOMException && e.name === "TimeoutError") {
+					e = new APIError(504, {
+						message: "Request timed out",
+						code: "GATEWAY_TIMEOUT",
+					});
+				}
+				if (isAPIError(e)) {
+					const onAPIError = options.onAPIError;
+					if (onAPIError) {
+						await onAPIError(e);
+					}
+					if (context.asResponse) {
+						return e;
+					}
+				}
+				await idempotency?.release();
+				throw e;
+			}));
 		const headers = internalContext.responseHeaders;
 		const status = internalContext.responseStatus;
 
+		if (context.asResponse) {
+			const result = await withSpan(tracer, "serialization", attributes, (span) => {
+				const result = toResponse(response, {
+					headers,
+					status,
+				});
+				span?.setAttribute("http.response.status_code", result.status);
+				return result;
+			});
+			await idempotency?.complete(result);
+			return result as ResultType<AsResponse, ReturnHeaders, ReturnStatus>;
+		}
 		return (
-			context.asResponse
-				? toResponse(response, {
-						headers,
-						status,
-					})
-				: context.returnHeaders
-					? context.returnStatus
-						? {
-								headers,
-								response,
-								status,
-							}
-						: {
-								headers,
-								response,
-							}
-					: context.returnStatus
-						? { response, status }
-						: response
+			context.returnHeaders
+				? context.returnStatus
+					? {
+							headers,
+							response,
+							status,
+						}
+					: {
+							headers,
+							response,
+						}
+				: context.returnStatus
+					? { response, status }
+					: response
 		) as ResultType<AsResponse, ReturnHeaders, ReturnStatus>;
 	};
 	internalHandler.options = options;
@@ -546,11 +918,41 @@ export function createEndpoint<Path extends string, Options extends EndpointOpti
 	return internalHandler as unknown as StrictEndpoint<Path, Options, R>;
 }
 
-createEndpoint.create = <E extends { use?: Middleware[] }>(opts?: E) => {
+createEndpoint.create = <
+	E extends {
+		use?: Middleware[];
+		/**
+		 * The router middlewares the endpoints run behind. They aren't run by
+		 * the endpoints, but the context they return is added to the type of
+		 * `ctx.context`.
+		 */
+		routerMiddleware?: RouterMiddleware[];
+		/**
+		 * The type of the `routerContext` the endpoints run with
+		 *
+		 * @example
+		 * ```ts
+		 * const create = createEndpoint.create({
+		 * 		context: {} as { db: Database },
+		 * 	})
+		 * ```
+		 */
+		context?: Record<string, any>;
+	},
+>(
+	opts?: E,
+) => {
+	type CreatorContext = E extends { context: infer C } ? C : {};
 	return <Path extends string, Opts extends EndpointOptions, R extends Promise<any>>(
 		path: Path,
 		options: Opts,
-		handler: (ctx: EndpointContext<Path, Opts, InferUse<E["use"]>>) => R,
+		handler: (
+			ctx: EndpointContext<
+				Path,
+				Opts,
+				CreatorContext & InferUse<E["use"]> & InferRouterMiddleware<E["routerMiddleware"]>
+			>,
+		) => R,
 	) => {
 		return createEndpoint(
 			path,
@@ -558,8 +960,15 @@ createEndpoint.create = <E extends { use?: Middleware[] }>(opts?: E) => {
 				...options,
 				use: [...(options?.use || []), ...(opts?.use || [])],
 			},
-			handler,
-		);
+			// the router middleware context is provided by the router
+			handler as unknown as (ctx: EndpointContext<Path, Opts>) => R,
+		) as unknown as StrictEndpoint<
+			Path,
+			E extends { context: infer C }
+				? Opts & { metadata: { $Infer: { context: C } } }
+				: Opts & { use: any[] },
+			InferResponse<Opts, Awaited<R>>
+		>;
 	};
 };
 
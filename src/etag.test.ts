@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createEndpoint } from "./endpoint";
+import { createRouter } from "./router";
+
+describe("etag", () => {
+	const getItems = createEndpoint("/items", { method: "GET" }, async () => {
+		return [{ id: 1 }, { id: 2 }];
+	});
+
+	it("should generate a strong etag and answer with a 304", async () => {
+		const router = createRouter({ getItems }, { etag: true });
+		const response = await router.handler(new Request("http://localhost/items"));
+		expect(response.status).toBe(200);
+		const etag = response.headers.get("etag");
+		expect(etag).toMatch(/^"[0-9a-f]{64}"$/);
+		expect(await response.json()).toEqual([{ id: 1 }, { id: 2 }]);
+
+		const notModified = await router.handler(
+			new Request("http://localhost/items", { headers: { "if-none-match": `W/${etag}` } }),
+		);
+		expect(notModified.status).toBe(304);
+		expect(notModified.headers.get("etag")).toBe(etag);
+		expect(notModified.headers.get("content-type")).toBeNull();
+		expect(await notModified.text()).toBe("");
+
+		const head = await router.handler(
+			new Request("http://localhost/items", {
+				method: "HEAD",
+				headers: { "if-none-match": `"other", ${etag}` },
+			}),
+		);
+		expect(head.status).toBe(304);
+
+		const changed = await router.handler(
+			new Request("http://localhost/items", { headers: { "if-none-match": '"other"' } }),
+		);
+		expect(changed.status).toBe(200);
+	});
+
+	it("should only generate etags when enabled", async () => {
+		const disabled = createEndpoint(
+			"/disabled",
+			{ method: "GET", metadata: { etag: false } },
+			async () => "ok",
+		);
+		const router = createRouter({ getItems, disabled });
+		expect(
+			(await router.handler(new Request("http://localhost/items"))).headers.has("etag"),
+		).toBe(false);
+		const enabled = createRouter({ getItems, disabled }, { etag: true });
+		const response = await enabled.handler(new Request("http://localhost/disabled"));
+		expect(response.headers.has("etag")).toBe(false);
+	});
+
+	it("should use the validators set by the handler", async () => {
+		const updated = new Date("2025-01-01T00:00:00.000Z");
+		const getItem = createEndpoint("/item", { method: "GET" }, async (ctx) => {
+			ctx.setETag("v1");
+			ctx.setLastModified(updated);
+			return { id: 1 };
+		});
+		const router = createRouter({ getItem });
+		const response = await router.handler(new Request("http://localhost/item"));
+		expect(response.headers.get("etag")).toBe('"v1"');
+		expect(response.headers.get("last-modified")).toBe(updated.toUTCString());
+
+		const byETag = await router.handler(
+			new Request("http://localhost/item", { headers: { "if-none-match": '"v1"' } }),
+		);
+		expect(byETag.status).toBe(304);
+		const byDate = await router.handler(
+			new Request("http://localhost/item", {
+				headers: { "if-modified-since": new Date("2025-01-02").toUTCString() },
+			}),
+		);
+		expect(byDate.status).toBe(304);
+		const modified = await router.handler(
+			new Request("http://localhost/item", {
+				headers: { "if-modified-since": new Date("2024-12-31").toUTCString() },
+			}),
+		);
+		expect(modified.status).toBe(200);
+		// If-None-Match takes precedence over If-Modified-Since
+		const precedence = await router.handler(
+			new Request("http://localhost/item", {
+				headers: {
+					"if-none-match": '"v0"',
+					"if-modified-since": new Date("2025-01-02").toUTCString(),
+				},
+			}),
+		);
+		expect(precedence.status).toBe(200);
+	});
+
+	it("should check the preconditions of unsafe methods", async () => {
+		let item = { version: 1, name: "item", updatedAt: new Date("2025-01-01T00:00:00.000Z") };
+		const updateItem = createEndpoint(
+			"/item",
+			{ method: "PUT", body: z.object({ name: z.string() }) },
+			async (ctx) => {
+				ctx.setETag(String(item.version));
+				ctx.setLastModified(item.updatedAt);
+				item = {
+					version: item.version + 1,
+					name: ctx.body.name,
+					updatedAt: new Date(item.updatedAt.getTime() + 60_000),
+				};
+				ctx.setETag(String(item.version));
+				return item;
+			},
+		);
+		const router = createRouter({ updateItem });
+		const update = (headers: Record<string, string>) =>
+			router.handler(
+				new Request("http://localhost/item", {
+					method: "PUT",
+					headers: { "content-type": "application/json", ...headers },
+					body: JSON.stringify({ name: "updated" }),
+				}),
+			);
+
+		const response = await update({ "if-match": '"1"' });
+		expect(response.status).toBe(200);
+		expect(response.headers.get("etag")).toBe('"2"');
+
+		const stale = await update({ "if-match": '"1"' });
+		expect(stale.status).toBe(412);
+		expect(await stale.json()).toMatchObject({ code: "PRECONDITION_FAILED" });
+		expect(item.version).toBe(2);
+
+		expect((await update({ "if-match": 'W/"2"' })).status).toBe(412);
+
+		const modified = await update({
+			"if-unmodified-since": new Date("2025-01-01T00:00:30.000Z").toUTCString(),
+		});
+		expect(modified.status).toBe(412);
+		expect(item.version).toBe(2);
+
+		expect((await update({ "if-match": "*" })).status).toBe(200);
+		expect(item.version).toBe(3);
+	});
+});
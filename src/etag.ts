@@ -0,0 +1,144 @@
+import { sha256 } from "./crypto";
+import { APIError } from "./error";
+
+const unsafeMethods = ["PUT", "PATCH", "DELETE"];
+
+/**
+ * Quote an entity tag, unless it's already quoted
+ */
+export function formatETag(value: string, weak?: boolean) {
+	if (/^(W\/)?".*"$/.test(value)) return value;
+	return `${weak ? "W/" : ""}"${value}"`;
+}
+
+/**
+ * Check an entity tag against the list of an `If-Match` or `If-None-Match`
+ * header. Weak tags never match with the strong comparison.
+ */
+export function matchETag(header: string, etag: string, weak: boolean) {
+	if (header.trim() === "*") return true;
+	const opaque = (tag: string) => tag.replace(/^W\//, "");
+	if (!weak && etag.startsWith("W/")) return false;
+	return header
+		.split(",")
+		.map((tag) => tag.trim())
+		.some((tag) => (weak ? opaque(tag) === opaque(etag) : tag === etag));
+}
+
+/**
+ * Parse an HTTP date in milliseconds, truncated to the second
+ */
+function parseHTTPDate(value: string | null | undefined) {
+	if (!value) return undefined;
+	const time = Date.parse(value);
+	return Number.isNaN(time) ? undefined : Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Check the `If-Match` precondition of an unsafe request against the
+ * current entity tag of the resource
+ *
+ * @throws {APIError} `412 Precondition Failed` when it doesn't match
+ */
+export function checkIfMatch(method: string, headers: Headers | null, etag: string) {
+	const ifMatch = headers?.get("if-match");
+	if (!ifMatch || !unsafeMethods.includes(method.toUpperCase())) return;
+	if (!matchETag(ifMatch, etag, false)) {
+		throw new APIError("PRECONDITION_FAILED", {
+			message: "The resource doesn't match the If-Match header",
+			code: "PRECONDITION_FAILED",
+		});
+	}
+}
+
+/**
+ * Check the `If-Unmodified-Since` precondition of an unsafe request against
+ * the last modification date of the resource. It's ignored when the request
+ * has an `If-Match` header.
+ *
+ * @throws {APIError} `412 Precondition Failed` when the resource was modified
+ */
+export function checkIfUnmodifiedSince(method: string, headers: Headers | null, date: Date) {
+	if (!headers || headers.has("if-match") || !unsafeMethods.includes(method.toUpperCase())) {
+		return;
+	}
+	const since = parseHTTPDate(headers.get("if-unmodified-since"));
+	if (since !== undefined && Math.floor(date.getTime() / 1000) * 1000 > since) {
+		throw new APIError("PRECONDITION_FAILED", {
+			message: "The resource was modified since the If-Unmodified-Since header",
+			code: "PRECONDITION_FAILED",
+		});
+	}
+}
+
+/**
+ * Set a strong `ETag` hashed from the body of a successful response, unless
+ * it already has one
+ */
+export async function generateETag(response: Response) {
+	if (
+		response.status !== 200 ||
+		!response.body ||
+		response.headers.has("etag") ||
+		response.headers.get("content-type")?.includes("text/event-stream")
+	) {
+		return response;
+	}
+	const body = await response.arrayBuffer();
+	const headers = new Headers(response.headers);
+	headers.set("ETag", formatETag(await sha256(body)));
+	return new Response(body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+	});
+}
+
+/**
+ * Headers kept on a `304 Not Modified` response
+ */
+const notModifiedHeaders = [
+	"cache-control",
+	"content-location",
+	"date",
+	"etag",
+	"expires",
+	"last-modified",
+	"vary",
+	"set-cookie",
+];
+
+/**
+ * Evaluate the `If-None-Match` and `If-Modified-Since` headers of a GET or
+ * HEAD request against the validators of the response, and replace it with
+ * a `304 Not Modified` response when the client's copy is fresh
+ */
+export async function handleConditionalRequest(request: Request, response: Response) {
+	if (
+		(request.method !== "GET" && request.method !== "HEAD") ||
+		response.status < 200 ||
+		response.status >= 300
+	) {
+		return response;
+	}
+	const etag = response.headers.get("etag");
+	const ifNoneMatch = request.headers.get("if-none-match");
+	let notModified = false;
+	if (ifNoneMatch) {
+		notModified = !!etag && matchETag(ifNoneMatch, etag, true);
+	} else {
+		const since = parseHTTPDate(request.headers.get("if-modified-since"));
+		const lastModified = parseHTTPDate(response.headers.get("last-modified"));
+		notModified = since !== undefined && lastModified !== undefined && lastModified <= since;
+	}
+	if (!notModified) return response;
+
+	await response.body?.cancel();
+	const headers = new Headers();
+	response.headers.forEach((value, key) => {
+		if (notModifiedHeaders.includes(key) || key.startsWith("access-control-")) {
+			headers.append(key, value);
+		}
+	});
+	return new Response(null, { status: 304, headers });
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createEndpoint } from "./endpoint";
+import type { IdempotencyRecord, IdempotencyStore } from "./idempotency";
+import { createRouter } from "./router";
+
+describe("idempotency", () => {
+	const createOrderRouter = (idempotency: Record<string, any> | boolean = true) => {
+		let count = 0;
+		let pending: Promise<void> | undefined;
+		const createOrder = createEndpoint(
+			"/orders",
+			{
+				method: "POST",
+				body: z.object({ item: z.string(), quantity: z.number().default(1) }),
+				metadata: { idempotency },
+			},
+			async (ctx) => {
+				await pending;
+				if (ctx.body.item === "fail") {
+					throw new Error("boom");
+				}
+				count++;
+				ctx.setCookie("order", String(count));
+				ctx.setCookie("session", "abc");
+				ctx.setStatus(201);
+				return { id: count, ...ctx.body };
+			},
+		);
+		const router = createRouter({ createOrder }, { logger: false });
+		const request = (
+			key: string | undefined,
+			body: Record<string, unknown>,
+			headers: Record<string, string> = {},
+		) =>
+			router.handler(
+				new Request("http://localhost/orders", {
+					method: "POST",
+					headers: {
+						"content-type": "application/json",
+						...(key ? { "idempotency-key": key } : {}),
+						...headers,
+					},
+					body: JSON.stringify(body),
+				}),
+			);
+		return {
+			request,
+			get count() {
+				return count;
+			},
+			block() {
+				let resolve!: () => void;
+				pending = new Promise((r) => {
+					resolve = r;
+				});
+				return () => {
+					pending = undefined;
+					resolve();
+				};
+			},
+		};
+	};
+
+	it("should replay the first response of a key", async () => {
+		const orders = createOrderRouter();
+		const first = await orders.request("key-1", { item: "book", quantity: 1 });
+		expect(first.status).toBe(201);
+		expect(await first.json()).toEqual({ id: 1, item: "book", quantity: 1 });
+
+		// the validated body is fingerprinted, so the default and the key order don't matter
+		const replay = await orders.request("key-1", { item: "book" });
+		expect(replay.status).toBe(201);
+		expect(await replay.json()).toEqual({ id: 1, item: "book", quantity: 1 });
+		expect(replay.headers.get("idempotent-replayed")).toBe("true");
+		expect(replay.headers.get("content-type")).toBe("application/json");
+		// without a scope, the cookies of the first caller aren't replayed
+		expect(replay.headers.getSetCookie()).toEqual([]);
+		expect(orders.count).toBe(1);
+
+		expect((await orders.request("key-2", { item: "book" })).status).toBe(201);
+		expect((await orders.request(undefined, { item: "book" })).status).toBe(201);
+		expect(orders.count).toBe(3);
+	});
+
+	it("should reject a key reused with another payload", async () => {
+		const orders = createOrderRouter();
+		await orders.request("key-3", { item: "book" });
+		const response = await orders.request("key-3", { item: "pen" });
+		expect(response.status).toBe(422);
+		expect(await response.json()).toMatchObject({ code: "IDEMPOTENCY_KEY_REUSED" });
+		expect(orders.count).toBe(1);
+	});
+
+	it("should reject concurrent duplicates", async () => {
+		const orders = createOrderRouter();
+		const unblock = orders.block();
+		const first = orders.request("key-4", { item: "book" });
+		const duplicate = await orders.request("key-4", { item: "book" });
+		expect(duplicate.status).toBe(409);
+		expect(await duplicate.json()).toMatchObject({ code: "IDEMPOTENCY_KEY_IN_PROGRESS" });
+		unblock();
+		expect((await first).status).toBe(201);
+		expect((await orders.request("key-4", { item: "book" })).status).toBe(201);
+		expect(orders.count).toBe(1);
+	});
+
+	it("should release the key after a server error", async () => {
+		const records = new Map<string, IdempotencyRecord>();
+		const store: IdempotencyStore = {
+			reserve: async (key, record) => {
+				const existing = records.get(key);
+				if (!existing) records.set(key, record);
+				return existing;
+			},
+			set: async (key, record) => {
+				records.set(key, record);
+			},
+			delete: async (key) => {
+				records.delete(key);
+			},
+		};
+		const orders = createOrderRouter({ store });
+		await orders.request("key-5", { item: "book" });
+		expect(records.get("/orders:key-5")?.response?.status).toBe(201);
+		const failed = await orders.request("key-6", { item: "fail" });
+		expect(failed.status).toBe(500);
+		expect(records.has("/orders:key-6")).toBe(false);
+	});
+
+	it("should scope the keys to the caller", async () => {
+		const orders = createOrderRouter({
+			scope: (ctx: { getHeader: (key: string) => string | null }) => ctx.getHeader("x-user"),
+		});
+		await orders.request("key-7", { item: "book" }, { "x-user": "alice" });
+		const replay = await orders.request("key-7", { item: "book" }, { "x-user": "alice" });
+		expect(replay.headers.get("idempotent-replayed")).toBe("true");
+		expect(replay.headers.getSetCookie()).toEqual(["order=1", "session=abc"]);
+
+		const other = await orders.request("key-7", { item: "book" }, { "x-user": "bob" });
+		expect(other.headers.get("idempotent-replayed")).toBeNull();
+		expect(await other.json()).toEqual({ id: 2, item: "book", quantity: 1 });
+		expect(orders.count).toBe(2);
+	});
+
+	it("should replay binary bodies", async () => {
+		const bytes = new Uint8Array([0, 255, 128, 10, 200]);
+		const upload = createEndpoint(
+			"/upload",
+			{ method: "POST", metadata: { idempotency: true } },
+			async () => new Response(bytes, { headers: { "content-type": "image/png" } }),
+		);
+		const router = createRouter({ upload }, { logger: false });
+		const request = () =>
+			router.handler(
+				new Request("http://localhost/upload", {
+					method: "POST",
+					headers: { "idempotency-key": "key-8" },
+				}),
+			);
+		await request();
+		const replay = await request();
+		expect(replay.headers.get("idempotent-replayed")).toBe("true");
+		expect(new Uint8Array(await replay.arrayBuffer())).toEqual(bytes);
+	});
+
+	it("should require a key when configured", async () => {
+		const orders = createOrderRouter({ required: true });
+		const response = await orders.request(undefined, { item: "book" });
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ code: "IDEMPOTENCY_KEY_REQUIRED" });
+	});
+});
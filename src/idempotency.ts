@@ -0,0 +1,245 @@
+import { sha256 } from "./crypto";
+import type { EndpointContext, EndpointOptions } from "./endpoint";
+import { APIError } from "./error";
+import { decodeBase64, encodeBase64 } from "./utils";
+
+/**
+ * A response stored for an idempotency key
+ */
+export interface IdempotencyResponse {
+	status: number;
+	/**
+	 * The headers as a list of entries, to keep each `set-cookie` header
+	 */
+	headers: [string, string][];
+	/**
+	 * The body encoded as base64, so binary bodies survive serialization
+	 */
+	body: string;
+}
+
+export interface IdempotencyRecord {
+	/**
+	 * Hash of the method, the path and the validated body of the request
+	 */
+	fingerprint: string;
+	/**
+	 * The stored response, `undefined` while the first request is in flight
+	 */
+	response?: IdempotencyResponse;
+}
+
+/**
+ * Storage of the idempotency keys
+ */
+export interface IdempotencyStore {
+	/**
+	 * Reserve a key for a request unless it's already used
+	 *
+	 * Returns the existing record of the key, or `undefined` when the key was
+	 * reserved. It must be atomic for concurrent duplicates to be detected.
+	 *
+	 * @param ttl - Time in milliseconds after which the record can be discarded
+	 */
+	reserve: (
+		key: string,
+		record: IdempotencyRecord,
+		ttl: number,
+	) => IdempotencyRecord | undefined | Promise<IdempotencyRecord | undefined>;
+	set: (key: string, record: IdempotencyRecord, ttl: number) => void | Promise<void>;
+	delete: (key: string) => void | Promise<void>;
+}
+
+export interface IdempotencyOptions {
+	/**
+	 * @default a shared in-memory store
+	 */
+	store?: IdempotencyStore;
+	/**
+	 * The header holding the idempotency key
+	 *
+	 * @default "Idempotency-Key"
+	 */
+	header?: string;
+	/**
+	 * Reject requests without an idempotency key with a `400 Bad Request`
+	 *
+	 * @default false
+	 */
+	required?: boolean;
+	/**
+	 * Time in milliseconds a response is kept for its key
+	 *
+	 * @default 86400000 (24 hours)
+	 */
+	ttl?: number;
+	/**
+	 * Methods the keys are used for
+	 *
+	 * @default ["POST", "PUT", "PATCH", "DELETE"]
+	 */
+	methods?: string[];
+	/**
+	 * The caller the keys belong to, for example the id of the user
+	 *
+	 * Keys are scoped to the path of the request and to this value, so
+	 * callers can't replay each other's responses. The `set-cookie` headers
+	 * of a response are only stored and replayed when it's set.
+	 */
+	scope?: (
+		ctx: EndpointContext<string, EndpointOptions, Record<string, any>>,
+	) => string | undefined | null | Promise<string | undefined | null>;
+}
+
+/**
+ * Create an in-memory idempotency store
+ *
+ * Expired keys are swept at most once a minute, when a key is set.
+ */
+export function createIdempotencyMemoryStore(): IdempotencyStore {
+	const entries = new Map<string, { record: IdempotencyRecord; expires: number }>();
+	let nextSweep = 0;
+	const set = (key: string, record: IdempotencyRecord, ttl: number) => {
+		const now = Date.now();
+		entries.set(key, { record, expires: now + ttl });
+		if (now >= nextSweep) {
+			nextSweep = now + 60_000;
+			for (const [key, entry] of entries) {
+				if (entry.expires <= now) entries.delete(key);
+			}
+		}
+	};
+	return {
+		reserve(key, record, ttl) {
+			const entry = entries.get(key);
+			if (entry && entry.expires > Date.now()) {
+				return entry.record;
+			}
+			set(key, record, ttl);
+			return undefined;
+		},
+		set,
+		delete(key) {
+			entries.delete(key);
+		},
+	};
+}
+
+let defaultStore: IdempotencyStore | undefined;
+
+/**
+ * Serialize a value with sorted object keys, so equal bodies get the same
+ * fingerprint
+ */
+function canonicalize(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(canonicalize);
+	}
+	if (value && typeof value === "object" && value.constructor === Object) {
+		return Object.fromEntries(
+			Object.keys(value)
+				.sort()
+				.map((key) => [key, canonicalize((value as Record<string, unknown>)[key])]),
+		);
+	}
+	return value;
+}
+
+/**
+ * Start an idempotent request
+ *
+ * Returns `undefined` when the request doesn't use a key, a `replay` of the
+ * stored response for a repeated request, or the callbacks to store or
+ * release the key once the response is known. Throws a `422` when the key
+ * was used with another payload and a `409` when the first request is still
+ * in flight.
+ */
+export async function startIdempotentRequest(
+	options: IdempotencyOptions,
+	request: EndpointContext<string, EndpointOptions, Record<string, any>>,
+) {
+	const method = (request.method as string).toUpperCase();
+	const methods = options.methods || ["POST", "PUT", "PATCH", "DELETE"];
+	if (!methods.includes(method)) return undefined;
+	const header = request.getHeader(options.header || "Idempotency-Key");
+	if (!header) {
+		if (options.required) {
+			throw new APIError("BAD_REQUEST", {
+				message: "Idempotency key is required",
+				code: "IDEMPOTENCY_KEY_REQUIRED",
+			});
+		}
+		return undefined;
+	}
+
+	const store = options.store || (defaultStore ||= createIdempotencyMemoryStore());
+	const ttl = options.ttl ?? 24 * 60 * 60 * 1000;
+	const fingerprint = await sha256(
+		JSON.stringify([method, request.path, canonicalize(request.body)]),
+	);
+	const scope = options.scope ? await options.scope(request) : undefined;
+	const key = [request.path, ...(scope ? [scope] : []), header].join(":");
+	const existing = await store.reserve(key, { fingerprint }, ttl);
+	if (existing) {
+		if (existing.fingerprint !== fingerprint) {
+			throw new APIError("UNPROCESSABLE_ENTITY", {
+				message: "Idempotency key was already used with another request",
+				code: "IDEMPOTENCY_KEY_REUSED",
+			});
+		}
+		if (!existing.response) {
+			throw new APIError("CONFLICT", {
+				message: "A request with this idempotency key is in progress",
+				code: "IDEMPOTENCY_KEY_IN_PROGRESS",
+			});
+		}
+		const { status, headers, body } = existing.response;
+		const replay = new Response(body ? decodeBase64(body) : null, { status, headers });
+		replay.headers.set("Idempotent-Replayed", "true");
+		return { replay };
+	}
+
+	return {
+		/**
+		 * Store the response for the key. Server errors and streams aren't
+		 * stored, so the request can be retried.
+		 */
+		async complete(response: Response) {
+			if (
+				response.status >= 500 ||
+				response.headers.get("content-type")?.includes("text/event-stream")
+			) {
+				await store.delete(key);
+				return;
+			}
+			const headers: [string, string][] = [];
+			response.headers.forEach((value, name) => {
+				if (name !== "set-cookie") headers.push([name, value]);
+			});
+			// without a scope, anyone sending the key would get the cookies
+			if (scope) {
+				for (const cookie of response.headers.getSetCookie()) {
+					headers.push(["set-cookie", cookie]);
+				}
+			}
+			await store.set(
+				key,
+				{
+					fingerprint,
+					response: {
+						status: response.status,
+						headers,
+						body: encodeBase64(new Uint8Array(await response.clone().arrayBuffer())),
+					},
+				},
+				ttl,
+			);
+		},
+		/**
+		 * Release the key after an unhandled error
+		 */
+		async release() {
+			await store.delete(key);
+		},
+	};
+}
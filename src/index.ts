@@ -2,9 +2,21 @@ export * from "./endpoint";
 export * from "./middleware";
 export * from "./router";
 export * from "./cookies";
+export * from "./cache";
+export * from "./compression";
+export * from "./cors";
+export * from "./csrf";
+export * from "./etag";
 export * from "./openapi";
 export * from "./error";
 export * from "./context";
 export * from "./to-response";
 export * from "./helper";
 export * from "./standard-schema";
+export * from "./single-flight";
+export * from "./sse";
+export * from "./websocket";
+export * from "./tracing";
+export * from "./logger";
+export * from "./rate-limit";
+export * from "./idempotency";
@@ -0,0 +1,194 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createEndpoint } from "./endpoint";
+import type { AccessLog, ErrorLog, LogEntry } from "./logger";
+import { createRouter } from "./router";
+
+describe("logger", () => {
+	const getUser = createEndpoint("/user/:id", { method: "GET" }, async (ctx) => {
+		return new Response(JSON.stringify({ id: ctx.params.id }), {
+			headers: { "content-type": "application/json", "content-length": "10" },
+		});
+	});
+	const fail = createEndpoint(
+		"/fail",
+		{
+			method: "POST",
+			metadata: { audit: true, openapi: { summary: "Fails" } },
+		},
+		async () => {
+			throw new Error("boom");
+		},
+	);
+
+	const echo = createEndpoint("/echo", { method: "POST" }, async (ctx) => {
+		return { body: ctx.body };
+	});
+
+	const createLoggedRouter = (options: Record<string, any> = {}) => {
+		const entries: LogEntry[] = [];
+		const lines: string[] = [];
+		const router = createRouter(
+			{ getUser, fail, echo },
+			{
+				logger: {
+					...options,
+					sink: (line, entry) => {
+						lines.push(line);
+						entries.push(entry);
+					},
+				},
+			},
+		);
+		return { router, entries, lines };
+	};
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should log an access entry for every request", async () => {
+		const { router, entries, lines } = createLoggedRouter();
+		await router.handler(
+			new Request("http://localhost/user/1", {
+				headers: {
+					"x-request-id": "req-1",
+					"user-agent": "vitest",
+					"x-forwarded-for": "10.0.0.1, 10.0.0.2",
+				},
+			}),
+		);
+		await router.handler(new Request("http://localhost/not-found"));
+		expect(entries).toHaveLength(2);
+		const [access, notFound] = entries as AccessLog[];
+		expect(access).toMatchObject({
+			type: "access",
+			requestId: "req-1",
+			method: "GET",
+			path: "/user/1",
+			route: "/user/:id",
+			status: 200,
+			responseSize: 10,
+			ip: "10.0.0.1",
+			userAgent: "vitest",
+		});
+		expect(access!.duration).toBeGreaterThanOrEqual(0);
+		expect(access!.headers).toBeUndefined();
+		expect(JSON.parse(lines[0]!)).toEqual(access);
+		expect(notFound).toMatchObject({ status: 404, route: undefined });
+		expect(notFound!.requestId).toMatch(/^[0-9a-f-]{36}$/);
+	});
+
+	it("should log unhandled errors with the endpoint metadata", async () => {
+		const { router, entries } = createLoggedRouter();
+		const response = await router.handler(
+			new Request("http://localhost/fail", {
+				method: "POST",
+				headers: { "x-request-id": "req-2" },
+			}),
+		);
+		expect(response.status).toBe(500);
+		const [error, access] = entries as [ErrorLog, AccessLog];
+		expect(error).toMatchObject({
+			type: "error",
+			requestId: "req-2",
+			route: "/fail",
+			error: { name: "Error", message: "boom" },
+			metadata: { audit: true, openapi: { summary: "Fails" } },
+		});
+		expect(access).toMatchObject({ type: "access", requestId: "req-2", status: 500 });
+	});
+
+	it("should format entries in the common log format", async () => {
+		const { router, lines } = createLoggedRouter({ format: "common" });
+		await router.handler(
+			new Request("http://localhost/user/1", {
+				headers: { "x-forwarded-for": "10.0.0.1" },
+			}),
+		);
+		expect(lines[0]).toMatch(
+			/^10\.0\.0\.1 - - \[\d{2}\/\w{3}\/\d{4}:\d{2}:\d{2}:\d{2} \+0000\] "GET \/user\/1 HTTP\/1\.1" 200 10$/,
+		);
+	});
+
+	it("should count the bytes of bodies without a Content-Length", async () => {
+		const { router, entries } = createLoggedRouter();
+		const body = new TextEncoder().encode(JSON.stringify({ name: "é" }));
+		const response = await router.handler(
+			new Request("http://localhost/echo", {
+				method: "POST",
+				headers: { "content-type": "application/json" },
+				body: new ReadableStream({
+					start(controller) {
+						controller.enqueue(body);
+						controller.close();
+					},
+				}),
+				// @ts-expect-error
+				duplex: "half",
+			}),
+		);
+		// the entry is written once the response body is sent
+		expect(entries).toHaveLength(0);
+		const sent = new Uint8Array(await response.arrayBuffer());
+		expect(entries[0]).toMatchObject({
+			type: "access",
+			status: 200,
+			requestSize: body.byteLength,
+			responseSize: sent.byteLength,
+		});
+
+		await router.handler(new Request("http://localhost/user/1", { method: "HEAD" }));
+		expect(entries[1]).toMatchObject({ method: "HEAD", responseSize: 0 });
+	});
+
+	it("should redact sensitive headers and cookies", async () => {
+		const { router, entries } = createLoggedRouter({
+			headers: true,
+			redact: { headers: ["x-secret"], cookies: ["session"] },
+		});
+		await router.handler(
+			new Request("http://localhost/user/1", {
+				headers: {
+					"x-secret": "secret",
+					authorization: "Bearer token",
+					cookie: "session=abc; theme=dark",
+				},
+			}),
+		);
+		expect((entries[0] as AccessLog).headers).toMatchObject({
+			"x-secret": "[REDACTED]",
+			authorization: "Bearer token",
+			cookie: "session=[REDACTED]; theme=dark",
+		});
+
+		const defaults = createLoggedRouter({ headers: true });
+		await defaults.router.handler(
+			new Request("http://localhost/user/1", {
+				headers: { authorization: "Bearer token", cookie: "session=abc; theme=dark" },
+			}),
+		);
+		expect((defaults.entries[0] as AccessLog).headers).toMatchObject({
+			authorization: "[REDACTED]",
+			cookie: "session=[REDACTED]; theme=[REDACTED]",
+		});
+	});
+
+	it("should only log errors to the console by default", async () => {
+		const error = vi.spyOn(console, "error").mockImplementation(() => {});
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		const router = createRouter({ getUser, fail });
+		await router.handler(new Request("http://localhost/user/1"));
+		await router.handler(new Request("http://localhost/fail", { method: "POST" }));
+		expect(log).not.toHaveBeenCalled();
+		expect(error).toHaveBeenCalledOnce();
+		expect(JSON.parse(error.mock.calls[0]![0])).toMatchObject({
+			type: "error",
+			error: { message: "boom" },
+		});
+
+		error.mockClear();
+		const silent = createRouter({ fail }, { logger: false });
+		await silent.handler(new Request("http://localhost/fail", { method: "POST" }));
+		expect(error).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,313 @@
+import { parseCookies } from "./cookies";
+
+export interface AccessLog {
+	type: "access";
+	/**
+	 * ISO timestamp of the end of the request
+	 */
+	time: string;
+	requestId: string;
+	method: string;
+	path: string;
+	/**
+	 * The path pattern of the matched endpoint
+	 */
+	route?: string;
+	status: number;
+	/**
+	 * Duration of the request in milliseconds
+	 */
+	duration: number;
+	/**
+	 * Size of the request body in bytes, from its `Content-Length` or
+	 * counted as it's read. `undefined` when the body wasn't read.
+	 */
+	requestSize?: number;
+	/**
+	 * Size of the response body in bytes, from its `Content-Length` or
+	 * counted as it's sent
+	 */
+	responseSize?: number;
+	ip?: string;
+	userAgent?: string;
+	/**
+	 * The request headers, with the sensitive headers and cookies redacted
+	 */
+	headers?: Record<string, string>;
+}
+
+export interface ErrorLog {
+	type: "error";
+	time: string;
+	requestId: string;
+	method: string;
+	path: string;
+	route?: string;
+	error: {
+		name: string;
+		message: string;
+		stack?: string;
+	};
+	/**
+	 * The metadata of the matched endpoint
+	 */
+	metadata?: Record<string, any>;
+}
+
+export type LogEntry = AccessLog | ErrorLog;
+
+export interface LoggerOptions {
+	/**
+	 * Format of the log lines
+	 *
+	 * - `json` - one JSON object per line
+	 * - `common` - the Common Log Format for access logs
+	 *
+	 * @default "json"
+	 */
+	format?: "json" | "common" | ((entry: LogEntry) => string);
+	/**
+	 * Where the log lines are written
+	 *
+	 * @default access logs to `console.log` and error logs to `console.error`
+	 */
+	sink?: (line: string, entry: LogEntry) => void;
+	/**
+	 * Log an entry for every request
+	 *
+	 * @default true
+	 */
+	access?: boolean;
+	/**
+	 * Add the request headers to the access logs
+	 *
+	 * @default false
+	 */
+	headers?: boolean;
+	/**
+	 * The header to read the request id from. A random id is generated for
+	 * requests without it.
+	 *
+	 * @default "x-request-id"
+	 */
+	requestIdHeader?: string;
+	redact?: {
+		/**
+		 * Headers whose value is redacted
+		 *
+		 * @default ["authorization", "proxy-authorization", "x-api-key"]
+		 */
+		headers?: string[];
+		/**
+		 * Cookies whose value is redacted in the `cookie` header, `true`
+		 * redacts every cookie
+		 *
+		 * @default true
+		 */
+		cookies?: string[] | boolean;
+	};
+}
+
+const REDACTED = "[REDACTED]";
+
+const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function formatCommonDate(time: string) {
+	const date = new Date(time);
+	const pad = (value: number) => String(value).padStart(2, "0");
+	return `${pad(date.getUTCDate())}/${months[date.getUTCMonth()]}/${date.getUTCFullYear()}:${pad(
+		date.getUTCHours(),
+	)}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
+
+function formatCommon(entry: LogEntry) {
+	const request = `"${entry.method} ${entry.path} HTTP/1.1"`;
+	const date = `[${formatCommonDate(entry.time)}]`;
+	if (entry.type === "error") {
+		return `${date} ${entry.requestId} ${request} ${entry.error.name}: ${entry.error.message}`;
+	}
+	return `${entry.ip || "-"} - - ${date} ${request} ${entry.status} ${entry.responseSize ?? "-"}`;
+}
+
+function getSize(headers: Headers) {
+	const length = headers.get("content-length");
+	return length ? Number(length) : undefined;
+}
+
+/**
+ * Count the bytes of a body as it's read, calling `onEnd` once it's done,
+ * failed or cancelled
+ */
+function countBytes(body: ReadableStream<Uint8Array>, onEnd: (size: number) => void) {
+	const reader = body.getReader();
+	let size = 0;
+	let ended = false;
+	const end = () => {
+		if (ended) return;
+		ended = true;
+		onEnd(size);
+	};
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const { done, value } = await reader.read();
+				if (done) {
+					end();
+					controller.close();
+					return;
+				}
+				size += value.byteLength;
+				controller.enqueue(value);
+			} catch (error) {
+				end();
+				controller.error(error);
+			}
+		},
+		async cancel(reason) {
+			end();
+			await reader.cancel(reason);
+		},
+	});
+}
+
+/**
+ * Create the logger of a router
+ */
+export function createLogger(options: LoggerOptions = {}) {
+	const format =
+		typeof options.format === "function"
+			? options.format
+			: options.format === "common"
+				? formatCommon
+				: (entry: LogEntry) => JSON.stringify(entry);
+	const redactedHeaders = (
+		options.redact?.headers || ["authorization", "proxy-authorization", "x-api-key"]
+	).map((header) => header.toLowerCase());
+	const redactedCookies = options.redact?.cookies ?? true;
+	// the bytes read from the requests without a `Content-Length`
+	const requestSizes = new WeakMap<Request, number>();
+
+	const write = (entry: LogEntry) => {
+		const line = format(entry);
+		if (options.sink) {
+			options.sink(line, entry);
+		} else if (entry.type === "error") {
+			console.error(line);
+		} else {
+			console.log(line);
+		}
+	};
+
+	const redactCookies = (cookie: string) => {
+		if (redactedCookies === false) return cookie;
+		return [...parseCookies(cookie).entries()]
+			.map(([name, value]) =>
+				redactedCookies === true || redactedCookies.includes(name)
+					? `${name}=${REDACTED}`
+					: `${name}=${value}`,
+			)
+			.join("; ");
+	};
+
+	const getHeaders = (request: Request) => {
+		const headers: Record<string, string> = {};
+		request.headers.forEach((value, key) => {
+			headers[key] = redactedHeaders.includes(key)
+				? REDACTED
+				: key === "cookie"
+					? redactCookies(value)
+					: value;
+		});
+		return headers;
+	};
+
+	return {
+		getRequestId(request: Request) {
+			return (
+				request.headers.get(options.requestIdHeader || "x-request-id") ||
+				crypto.randomUUID()
+			);
+		},
+		/**
+		 * Wrap the body of a request without a `Content-Length` to count its
+		 * bytes as it's read
+		 */
+		track(request: Request) {
+			if (
+				options.access === false ||
+				!request.body ||
+				request.headers.has("content-length")
+			) {
+				return request;
+			}
+			const tracked: Request = new Request(request, {
+				body: countBytes(request.body, (size) => requestSizes.set(tracked, size)),
+				// @ts-expect-error
+				duplex: "half",
+			});
+			return tracked;
+		},
+		/**
+		 * Log the access entry of a request
+		 *
+		 * Returns the response, with its body wrapped to count its bytes when it
+		 * has no `Content-Length`. The entry is then written once the body is
+		 * sent or cancelled.
+		 */
+		access(
+			request: Request,
+			response: Response,
+			details: { requestId: string; route?: string; duration: number },
+		) {
+			if (options.access === false) return response;
+			const log = (responseSize: number | undefined) =>
+				write({
+					type: "access",
+					time: new Date().toISOString(),
+					requestId: details.requestId,
+					method: request.method,
+					path: new URL(request.url).pathname,
+					route: details.route,
+					status: response.status,
+					duration: Math.round(details.duration * 1000) / 1000,
+					requestSize: getSize(request.headers) ?? requestSizes.get(request),
+					responseSize,
+					ip: request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || undefined,
+					userAgent: request.headers.get("user-agent") || undefined,
+					headers: options.headers ? getHeaders(request) : undefined,
+				});
+			const length = getSize(response.headers);
+			if (!response.body || length !== undefined) {
+				log(response.body ? length : 0);
+				return response;
+			}
+			return new Response(countBytes(response.body, log), {
+				status: response.status,
+				statusText: response.statusText,
+				headers: response.headers,
+			});
+		},
+		error(
+			request: Request,
+			error: unknown,
+			details: { requestId: string; route?: string; metadata?: Record<string, any> },
+		) {
+			const { $Infer, ...metadata } = details.metadata || {};
+			write({
+				type: "error",
+				time: new Date().toISOString(),
+				requestId: details.requestId,
+				method: request.method,
+				path: new URL(request.url).pathname,
+				route: details.route,
+				error:
+					error instanceof Error
+						? { name: error.name, message: error.message, stack: error.stack }
+						: { name: "Error", message: String(error) },
+				metadata: details.metadata ? metadata : undefined,
+			});
+		},
+	};
+}
+
+export type Logger = ReturnType<typeof createLogger>;
@@ -2,6 +2,7 @@ import { describe, expect, expectTypeOf, it } from "vitest";
 import { createMiddleware } from "./middleware";
 import { createEndpoint } from "./endpoint";
 import { APIError, kAPIErrorHeaderSymbol } from "./error";
+import { z } from "zod";
 
 describe("type", () => {
 	it("should infer middleware returned type", async () => {
@@ -176,3 +177,190 @@ describe("creator", () => {
 		).resolves.toBeUndefined();
 	});
 });
+
+describe("around middleware", () => {
+	it("should wrap the handler result", async () => {
+		const calls: string[] = [];
+		const context = createMiddleware(async () => {
+			calls.push("context");
+			return {
+				user: "john",
+			};
+		});
+		const around = createMiddleware.around(async (ctx, next) => {
+			calls.push("before");
+			const result = await next();
+			calls.push("after");
+			ctx.setHeader("X-Timing", "1");
+			return { data: result };
+		});
+		const endpoint = createEndpoint(
+			"/path",
+			{
+				method: "GET",
+				use: [around, context],
+			},
+			async (ctx) => {
+				expectTypeOf(ctx.context).toEqualTypeOf<{ user: string }>();
+				calls.push("handler");
+				return ctx.context;
+			},
+		);
+		const { response, headers } = await endpoint({ returnHeaders: true });
+		expect(response).toEqual({ data: { user: "john" } });
+		expect(headers.get("X-Timing")).toBe("1");
+		expect(calls).toEqual(["context", "before", "handler", "after"]);
+	});
+
+	it("should run around middlewares as an onion", async () => {
+		const calls: string[] = [];
+		const first = createMiddleware.around(async (_, next) => {
+			calls.push("first:before");
+			const result = await next();
+			calls.push("first:after");
+			return result;
+		});
+		const second = createMiddleware.around(async (_, next) => {
+			calls.push("second:before");
+			const result = await next();
+			calls.push("second:after");
+			return result;
+		});
+		const endpoint = createEndpoint(
+			"/path",
+			{
+				method: "GET",
+				use: [first, second],
+			},
+			async () => {
+				calls.push("handler");
+				return "ok";
+			},
+		);
+		await endpoint();
+		expect(calls).toEqual([
+			"first:before",
+			"second:before",
+			"handler",
+			"second:after",
+			"first:after",
+		]);
+	});
+
+	it("should handle errors thrown by the handler", async () => {
+		const around = createMiddleware.around(async (ctx, next) => {
+			try {
+				return await next();
+			} catch (e) {
+				ctx.setStatus(202);
+				return { recovered: (e as APIError).status };
+			}
+		});
+		const endpoint = createEndpoint(
+			"/path",
+			{
+				method: "GET",
+				use: [around],
+			},
+			async (ctx) => {
+				throw ctx.error("BAD_REQUEST");
+			},
+		);
+		const response = await endpoint({ asResponse: true });
+		expect(response.status).toBe(202);
+		expect(await response.json()).toEqual({ recovered: "BAD_REQUEST" });
+	});
+
+	it("should receive the validated response", async () => {
+		const around = createMiddleware.around(async (_, next) => {
+			return next();
+		});
+		const endpoint = createEndpoint(
+			"/path",
+			{
+				method: "GET",
+				use: [around],
+				response: z.object({
+					name: z.string(),
+				}),
+			},
+			async () => {
+				return { name: "hello", extra: true };
+			},
+		);
+		expect(await endpoint()).toEqual({ name: "hello" });
+	});
+});
+
+describe("short-circuit", () => {
+	const auth = createMiddleware(async (ctx) => {
+		if (ctx.getHeader("authorization") !== "Bearer token") {
+			ctx.setHeader("WWW-Authenticate", "Bearer");
+			return new Response("Unauthorized", { status: 401 });
+		}
+		return {
+			user: "john",
+		};
+	});
+
+	it("should end the request when a middleware returns a response", async () => {
+		let called = false;
+		const next = createMiddleware(async () => {
+			called = true;
+			return {
+				checked: true,
+			};
+		});
+		const endpoint = createEndpoint(
+			"/path",
+			{
+				method: "GET",
+				use: [auth, next],
+			},
+			async (ctx) => {
+				expectTypeOf(ctx.context).toEqualTypeOf<{ user: string; checked: boolean }>();
+				called = true;
+				return ctx.context;
+			},
+		);
+		const response = await endpoint({ asResponse: true });
+		expect(response.status).toBe(401);
+		expect(response.headers.get("WWW-Authenticate")).toBe("Bearer");
+		expect(await response.text()).toBe("Unauthorized");
+		expect(called).toBe(false);
+
+		expect(await endpoint()).toBeInstanceOf(Response);
+		expect(
+			await endpoint({
+				headers: {
+					authorization: "Bearer token",
+				},
+			}),
+		).toEqual({ user: "john", checked: true });
+	});
+
+	it("should end the request from a nested middleware", async () => {
+		const middleware = createMiddleware(
+			{
+				use: [auth],
+			},
+			async () => {
+				return {
+					role: "admin",
+				};
+			},
+		);
+		const endpoint = createEndpoint(
+			"/path",
+			{
+				method: "GET",
+				use: [middleware],
+			},
+			async (ctx) => {
+				return ctx.context;
+			},
+		);
+		const response = await endpoint({ asResponse: true });
+		expect(response.status).toBe(401);
+	});
+});
@@ -140,7 +140,7 @@ export function createMiddleware<Options extends MiddlewareOptions, R>(
 ): <InputCtx extends MiddlewareInputContext<Options>>(inputContext: InputCtx) => Promise<R>;
 export function createMiddleware(optionsOrHandler: any, handler?: any) {
 	const internalHandler = async (inputCtx: InputContext<any, any>) => {
-		const context = inputCtx as InputContext<any, any>;
+		const context = inputCtx as InputContext<any, any> & { next?: MiddlewareNext };
 		const _handler = typeof optionsOrHandler === "function" ? optionsOrHandler : handler;
 		const options = typeof optionsOrHandler === "function" ? {} : optionsOrHandler;
 		const internalContext = await createInternalContext(context, {
@@ -152,12 +152,14 @@ export function createMiddleware(optionsOrHandler: any, handler?: any) {
 			throw new Error("handler must be defined");
 		}
 		try {
-			const response = await _handler(internalContext as any);
+			const response =
+				internalContext.returned ?? (await _handler(internalContext as any, context.next));
 			const headers = internalContext.responseHeaders;
 			return context.returnHeaders
 				? {
 						headers,
 						response,
+						status: internalContext.responseStatus,
 					}
 				: response;
 		} catch (e) {
@@ -185,8 +187,18 @@ export type MiddlewareInputContext<Options extends MiddlewareOptions> = InferBod
 		asResponse?: boolean;
 		returnHeaders?: boolean;
 		use?: Middleware[];
+		next?: MiddlewareNext;
+		endpointState?: InputContext<string, EndpointOptions>["endpointState"];
 	};
 
+/**
+ * Runs the rest of the chain. In an endpoint `use` array it resolves with
+ * the value returned from the handler, and in `routerMiddleware` with the
+ * `Response` of the endpoint. It rejects with the error thrown from the
+ * rest of the chain.
+ */
+export type MiddlewareNext = () => Promise<any>;
+
 export type Middleware<
 	Options extends MiddlewareOptions = MiddlewareOptions,
 	Handler extends (inputCtx: any) => Promise<any> = any,
@@ -233,3 +245,45 @@ createMiddleware.create = <
 	}
 	return fn;
 };
+
+/**
+ * Creates a middleware that wraps the rest of the chain
+ *
+ * The handler receives a `next` function that runs the rest of the chain
+ * and resolves with its result. Whatever the handler returns replaces the
+ * result, and headers or status set through the context after `next` are
+ * applied to the response.
+ *
+ * @example
+ * ```ts
+ * const timing = createMiddleware.around(async (ctx, next) => {
+ * 		const start = Date.now();
+ * 		const result = await next();
+ * 		ctx.setHeader("Server-Timing", `total;dur=${Date.now() - start}`);
+ * 		return result;
+ * 	})
+ * ```
+ */
+function around<Options extends MiddlewareOptions>(
+	options: Options,
+	handler: (context: MiddlewareContext<Options>, next: MiddlewareNext) => Promise<any>,
+): AroundMiddleware<Options>;
+function around<Options extends MiddlewareOptions>(
+	handler: (context: MiddlewareContext<Options>, next: MiddlewareNext) => Promise<any>,
+): AroundMiddleware<Options>;
+function around(optionsOrHandler: any, handler?: any) {
+	const middleware = createMiddleware(
+		typeof optionsOrHandler === "function" ? {} : optionsOrHandler,
+		typeof optionsOrHandler === "function" ? optionsOrHandler : handler,
+	);
+	return Object.assign(middleware, { around: true as const });
+}
+
+createMiddleware.around = around;
+
+export type AroundMiddleware<Options extends MiddlewareOptions = MiddlewareOptions> = Middleware<
+	Options,
+	(inputContext: MiddlewareInputContext<Options>) => Promise<unknown>
+> & {
+	around: true;
+};
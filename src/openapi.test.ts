@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createEndpoint } from "./endpoint";
+import { generator } from "./openapi";
+
+describe("generator", () => {
+	it("should generate responses from response schemas", async () => {
+		const endpoint = createEndpoint(
+			"/item",
+			{
+				method: "GET",
+				response: z.object({
+					id: z.string(),
+				}),
+			},
+			async () => {
+				return { id: "1" };
+			},
+		);
+		const schema = await generator({ endpoint });
+		expect(schema.paths["/item"].get?.responses?.["200"]).toEqual({
+			description: "Success",
+			content: {
+				"application/json": {
+					schema: {
+						type: "object",
+						properties: {
+							id: { type: "string" },
+						},
+						required: ["id"],
+						additionalProperties: false,
+					},
+				},
+			},
+		});
+	});
+
+	it("should prefer metadata responses over response schemas", async () => {
+		const endpoint = createEndpoint(
+			"/item/custom",
+			{
+				method: "POST",
+				responses: {
+					201: z.object({
+						id: z.string(),
+					}),
+				},
+				metadata: {
+					openapi: {
+						responses: {
+							"201": {
+								description: "Created",
+							},
+						},
+					},
+				},
+			},
+			async () => {
+				return { id: "1" };
+			},
+		);
+		const schema = await generator({ endpoint });
+		expect(schema.paths["/item/custom"].post?.responses?.["201"]).toEqual({
+			description: "Created",
+		});
+	});
+
+	it("should generate header parameters from headers schema", async () => {
+		const endpoint = createEndpoint(
+			"/item/headers",
+			{
+				method: "GET",
+				headers: z.object({
+					"x-api-version": z.string(),
+					"idempotency-key": z.string().optional(),
+				}),
+			},
+			async () => {
+				return { id: "1" };
+			},
+		);
+		const schema = await generator({ endpoint });
+		expect(schema.paths["/item/headers"].get?.parameters).toEqual([
+			{
+				name: "x-api-version",
+				in: "header",
+				required: true,
+				schema: { type: "string" },
+			},
+			{
+				name: "idempotency-key",
+				in: "header",
+				required: false,
+				schema: { type: "string" },
+			},
+		]);
+	});
+
+	it("should generate cookie parameters from cookies schema", async () => {
+		const endpoint = createEndpoint(
+			"/item/cookies",
+			{
+				method: "GET",
+				cookies: {
+					session: {
+						schema: z.string(),
+						prefix: "secure",
+						signed: true,
+						secret: "secret",
+					},
+					theme: {},
+				},
+			},
+			async () => {
+				return { id: "1" };
+			},
+		);
+		const schema = await generator({ endpoint });
+		expect(schema.paths["/item/cookies"].get?.parameters).toEqual([
+			{
+				name: "__Secure-session",
+				in: "cookie",
+				required: true,
+				schema: { type: "string" },
+			},
+			{
+				name: "theme",
+				in: "cookie",
+				required: false,
+				schema: { type: "string" },
+			},
+		]);
+	});
+
+	it("should use the error schema for error responses", async () => {
+		const endpoint = createEndpoint(
+			"/item/error",
+			{
+				method: "GET",
+				error: z.object({
+					message: z.string(),
+					code: z.string(),
+				}),
+			},
+			async () => {
+				return { id: "1" };
+			},
+		);
+		const schema = await generator({ endpoint });
+		const responses = schema.paths["/item/error"].get?.responses;
+		for (const status of ["400", "401", "403", "404", "429", "500"]) {
+			expect(responses?.[status].content["application/json"].schema).toEqual({
+				type: "object",
+				properties: {
+					message: { type: "string" },
+					code: { type: "string" },
+				},
+				required: ["message", "code"],
+				additionalProperties: false,
+			});
+		}
+	});
+});
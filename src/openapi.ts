@@ -1,5 +1,7 @@
-import { ZodObject, ZodOptional, ZodType } from "zod";
+import { ZodObject, ZodOptional, ZodType, toJSONSchema } from "zod";
 import type { Endpoint, EndpointOptions } from "./endpoint";
+import type { StandardSchemaV1 } from "./standard-schema";
+import { getCookieKey } from "./cookies";
 
 export type OpenAPISchemaType = "string" | "number" | "integer" | "boolean" | "array" | "object";
 
@@ -124,6 +126,40 @@ function getParameters(options: EndpointOptions) {
 			}
 		});
 	}
+	if (options.headers instanceof ZodObject) {
+		Object.entries(options.headers.shape).forEach(([key, value]) => {
+			if (value instanceof ZodType) {
+				parameters.push({
+					name: key,
+					in: "header",
+					required: !value.isOptional(),
+					schema: {
+						type: getTypeFromZodType(
+							value instanceof ZodOptional ? (value.unwrap() as ZodType) : value,
+						),
+						description: value.description,
+					},
+				});
+			}
+		});
+	}
+	if (options.cookies) {
+		Object.entries(options.cookies).forEach(([key, value]) => {
+			parameters.push({
+				name: getCookieKey(key, value.prefix) || key,
+				in: "cookie",
+				required: value.schema instanceof ZodType ? !value.schema.isOptional() : false,
+				schema: {
+					type:
+						value.schema instanceof ZodType
+							? getTypeFromZodType(value.schema)
+							: "string",
+					description:
+						value.schema instanceof ZodType ? value.schema.description : undefined,
+				},
+			});
+		});
+	}
 	return parameters;
 }
 
@@ -165,8 +201,38 @@ function getRequestBody(options: EndpointOptions): any {
 	return undefined;
 }
 
-function getResponse(responses?: Record<string, any>) {
-	return {
+function getJSONSchema(schema: StandardSchemaV1) {
+	if (!(schema instanceof ZodType)) return undefined;
+	const { $schema, ...jsonSchema } = toJSONSchema(schema, {
+		io: "output",
+		unrepresentable: "any",
+	});
+	return jsonSchema;
+}
+
+function getResponseSchemas(options: EndpointOptions) {
+	const schemas: Record<string, StandardSchemaV1> = {
+		...(options.response ? { "200": options.response } : {}),
+		...options.responses,
+	};
+	const responses: Record<string, any> = {};
+	for (const [status, schema] of Object.entries(schemas)) {
+		const jsonSchema = getJSONSchema(schema);
+		if (!jsonSchema) continue;
+		responses[status] = {
+			description: jsonSchema.description || "Success",
+			content: {
+				"application/json": {
+					schema: jsonSchema,
+				},
+			},
+		};
+	}
+	return responses;
+}
+
+function getResponse(options: EndpointOptions) {
+	const errorResponses: Record<string, any> = {
 		"400": {
 			content: {
 				"application/json": {
@@ -261,14 +327,28 @@ function getResponse(responses?: Record<string, any>) {
 			description:
 				"Internal Server Error. This is a problem with the server that you cannot fix.",
 		},
-		...responses,
+	};
+	const errorSchema = options.error ? getJSONSchema(options.error) : undefined;
+	if (errorSchema) {
+		for (const response of Object.values(errorResponses)) {
+			response.content["application/json"].schema = errorSchema;
+		}
+	}
+	return {
+		...errorResponses,
+		...getResponseSchemas(options),
+		...options.metadata?.openapi?.responses,
 	} as any;
 }
 
 export async function generator(
 	endpoints: Record<string, Endpoint>,
 	config?: {
-		url: string;
+		url?: string;
+		/**
+		 * Tags added to every endpoint
+		 */
+		tags?: string[];
 	},
 ) {
 	const components = {
@@ -281,7 +361,11 @@ export async function generator(
 		if (options.method === "GET") {
 			paths[value.path] = {
 				get: {
-					tags: ["Default", ...(options.metadata?.openapi?.tags || [])],
+					tags: [
+						"Default",
+						...(config?.tags || []),
+						...(options.metadata?.openapi?.tags || []),
+					],
 					description: options.metadata?.openapi?.description,
 					operationId: options.metadata?.openapi?.operationId,
 					security: [
@@ -290,7 +374,7 @@ export async function generator(
 						},
 					],
 					parameters: getParameters(options),
-					responses: getResponse(options.metadata?.openapi?.responses),
+					responses: getResponse(options),
 				},
 			};
 		}
@@ -299,7 +383,11 @@ export async function generator(
 			const body = getRequestBody(options);
 			paths[value.path] = {
 				post: {
-					tags: ["Default", ...(options.metadata?.openapi?.tags || [])],
+					tags: [
+						"Default",
+						...(config?.tags || []),
+						...(options.metadata?.openapi?.tags || []),
+					],
 					description: options.metadata?.openapi?.description,
 					operationId: options.metadata?.openapi?.operationId,
 					security: [
@@ -323,7 +411,7 @@ export async function generator(
 									},
 								},
 							}),
-					responses: getResponse(options.metadata?.openapi?.responses),
+					responses: getResponse(options),
 				},
 			};
 		}
@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from "vitest";
+import { createEndpoint } from "./endpoint";
+import { BetterCallError } from "./error";
+import { createMiddleware } from "./middleware";
+import { createRateLimit, type RateLimitState, type RateLimitStore } from "./rate-limit";
+import { createRouter } from "./router";
+
+describe("rate limit", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	const createLimitedRouter = (limit: ReturnType<typeof createRateLimit>) => {
+		const endpoint = createEndpoint(
+			"/search",
+			{ method: "GET", use: [limit] },
+			async () => "ok",
+		);
+		const router = createRouter({ endpoint });
+		return (ip = "10.0.0.1") =>
+			router.handler(
+				new Request("http://localhost/search", {
+					headers: { "x-forwarded-for": ip },
+				}),
+			);
+	};
+
+	it("should limit requests in a fixed window", async () => {
+		const request = createLimitedRouter(
+			createRateLimit({ limit: 2, window: 60_000, trustProxy: true }),
+		);
+		const first = await request();
+		expect(first.status).toBe(200);
+		expect(first.headers.get("ratelimit-limit")).toBe("2");
+		expect(first.headers.get("ratelimit-remaining")).toBe("1");
+		expect(first.headers.get("ratelimit-reset")).toBe("60");
+		expect(first.headers.get("ratelimit-policy")).toBe("2;w=60");
+		expect((await request()).headers.get("ratelimit-remaining")).toBe("0");
+
+		vi.advanceTimersByTime(10_000);
+		const limited = await request();
+		expect(limited.status).toBe(429);
+		expect(await limited.json()).toMatchObject({ code: "RATE_LIMITED" });
+		expect(limited.headers.get("retry-after")).toBe("50");
+		expect(limited.headers.get("ratelimit-remaining")).toBe("0");
+
+		// other clients have their own limit
+		expect((await request("10.0.0.2")).status).toBe(200);
+
+		vi.advanceTimersByTime(50_000);
+		expect((await request()).status).toBe(200);
+	});
+
+	it("should weight the previous window with the sliding window", async () => {
+		const request = createLimitedRouter(
+			createRateLimit({
+				limit: 4,
+				window: 60_000,
+				algorithm: "sliding-window",
+				trustProxy: true,
+			}),
+		);
+		for (let i = 0; i < 4; i++) {
+			expect((await request()).status).toBe(200);
+		}
+		expect((await request()).status).toBe(429);
+
+		// a quarter into the next window, the previous window counts for 3 requests
+		vi.advanceTimersByTime(75_000);
+		const response = await request();
+		expect(response.status).toBe(200);
+		expect(response.headers.get("ratelimit-remaining")).toBe("0");
+		const limited = await request();
+		expect(limited.status).toBe(429);
+		// the previous window needs to count for 2 requests
+		expect(limited.headers.get("retry-after")).toBe("15");
+
+		vi.advanceTimersByTime(15_000);
+		expect((await request()).status).toBe(200);
+	});
+
+	it("should refill the token bucket over time", async () => {
+		const request = createLimitedRouter(
+			createRateLimit({
+				limit: 3,
+				window: 3_000,
+				algorithm: "token-bucket",
+				trustProxy: true,
+			}),
+		);
+		for (let i = 0; i < 3; i++) {
+			expect((await request()).status).toBe(200);
+		}
+		const limited = await request();
+		expect(limited.status).toBe(429);
+		expect(limited.headers.get("retry-after")).toBe("1");
+
+		vi.advanceTimersByTime(1_000);
+		const response = await request();
+		expect(response.status).toBe(200);
+		expect(response.headers.get("ratelimit-remaining")).toBe("0");
+		expect((await request()).status).toBe(429);
+	});
+
+	it("should derive keys from headers, cookies and the user", async () => {
+		const byHeader = createRateLimit({ limit: 1, window: 1000, key: { header: "x-api-key" } });
+		const byCookie = createRateLimit({ limit: 1, window: 1000, key: { cookie: "session" } });
+		const auth = createMiddleware(async (ctx) => {
+			return { user: { id: ctx.getHeader("x-user") } };
+		});
+		const byUser = createRateLimit({ limit: 1, window: 1000, key: "user" });
+		const header = createEndpoint(
+			"/header",
+			{ method: "GET", use: [byHeader] },
+			async () => "ok",
+		);
+		const cookie = createEndpoint(
+			"/cookie",
+			{ method: "GET", use: [byCookie] },
+			async () => "ok",
+		);
+		const user = createEndpoint(
+			"/user",
+			{ method: "GET", use: [auth, byUser] },
+			async (ctx) => {
+				expectTypeOf(ctx.context.user).toEqualTypeOf<{ id: string | null }>();
+				return "ok";
+			},
+		);
+		const router = createRouter({ header, cookie, user });
+		const get = (path: string, headers: Record<string, string>) =>
+			router.handler(new Request(`http://localhost${path}`, { headers }));
+
+		expect((await get("/header", { "x-api-key": "a" })).status).toBe(200);
+		expect((await get("/header", { "x-api-key": "a" })).status).toBe(429);
+		expect((await get("/header", { "x-api-key": "b" })).status).toBe(200);
+
+		expect((await get("/cookie", { cookie: "session=a" })).status).toBe(200);
+		expect((await get("/cookie", { cookie: "session=a" })).status).toBe(429);
+		expect((await get("/cookie", { cookie: "session=b" })).status).toBe(200);
+
+		expect((await get("/user", { "x-user": "1" })).status).toBe(200);
+		expect((await get("/user", { "x-user": "1" })).status).toBe(429);
+		expect((await get("/user", { "x-user": "2" })).status).toBe(200);
+		// requests without a key share a limit
+		expect((await get("/user", {})).status).toBe(200);
+		expect((await get("/user", {})).status).toBe(429);
+	});
+
+	it("should only trust the client ip when configured", async () => {
+		expect(() => createRateLimit({ limit: 1, window: 1000 })).toThrowError(BetterCallError);
+
+		// the last address is the one added by the proxy
+		const request = createLimitedRouter(
+			createRateLimit({ limit: 1, window: 1000, trustProxy: true }),
+		);
+		expect((await request("1.1.1.1, 10.0.0.1")).status).toBe(200);
+		expect((await request("2.2.2.2, 10.0.0.1")).status).toBe(429);
+		expect((await request("10.0.0.2")).status).toBe(200);
+
+		const byIp = createRateLimit({
+			limit: 1,
+			window: 1000,
+			getIp: (ctx) => ctx.getHeader("cf-connecting-ip"),
+		});
+		const endpoint = createEndpoint("/ip", { method: "GET", use: [byIp] }, async () => "ok");
+		const router = createRouter({ endpoint });
+		const get = (ip: string) =>
+			router.handler(
+				new Request("http://localhost/ip", {
+					headers: { "cf-connecting-ip": ip, "x-forwarded-for": crypto.randomUUID() },
+				}),
+			);
+		expect((await get("1.1.1.1")).status).toBe(200);
+		expect((await get("1.1.1.1")).status).toBe(429);
+		expect((await get("2.2.2.2")).status).toBe(200);
+	});
+
+	it("should limit concurrent requests", async () => {
+		const request = createLimitedRouter(
+			createRateLimit({ limit: 2, window: 60_000, trustProxy: true }),
+		);
+		const responses = await Promise.all(Array.from({ length: 10 }, () => request("10.0.0.9")));
+		expect(responses.filter((response) => response.status === 200)).toHaveLength(2);
+		expect(responses.filter((response) => response.status === 429)).toHaveLength(8);
+	});
+
+	it("should work as a router middleware with a custom store", async () => {
+		const states = new Map<string, RateLimitState>();
+		const store: RateLimitStore = {
+			consume: async (key, update) => {
+				states.set(key, update(states.get(key)));
+			},
+		};
+		const endpoint = createEndpoint("/api/items", { method: "GET" }, async () => "ok");
+		const router = createRouter(
+			{ endpoint },
+			{
+				routerMiddleware: [
+					{
+						path: "/api/**",
+						middleware: createRateLimit({
+							limit: 1,
+							window: 1000,
+							store,
+							prefix: "api",
+							key: (ctx) => ctx.getHeader("x-client"),
+						}),
+					},
+				],
+			},
+		);
+		const request = () =>
+			router.handler(
+				new Request("http://localhost/api/items", { headers: { "x-client": "mobile" } }),
+			);
+		const response = await request();
+		expect(response.status).toBe(200);
+		expect(response.headers.get("ratelimit-limit")).toBe("1");
+		expect(response.headers.get("ratelimit-remaining")).toBe("0");
+		const limited = await request();
+		expect(limited.status).toBe(429);
+		expect(limited.headers.get("retry-after")).toBe("1");
+		expect(states.has("api:mobile")).toBe(true);
+	});
+});
@@ -0,0 +1,289 @@
+import { APIError, BetterCallError } from "./error";
+import { createMiddleware, type MiddlewareContext, type MiddlewareOptions } from "./middleware";
+
+export type RateLimitAlgorithm = "fixed-window" | "sliding-window" | "token-bucket";
+
+/**
+ * The state of a key, specific to the algorithm of the rate limit
+ */
+export type RateLimitState = Record<string, number>;
+
+/**
+ * Storage of the rate limit state of each key
+ *
+ * The state is a flat object of numbers that can be serialized as JSON.
+ */
+export interface RateLimitStore {
+	/**
+	 * Replace the state of a key with the one computed by `update`
+	 *
+	 * It must be atomic, otherwise concurrent requests read the same state
+	 * and get past the limit. A store that can't lock the key can retry
+	 * `update` until its write succeeds, for example with `WATCH` in Redis.
+	 *
+	 * @param ttl - Time in milliseconds after which the state can be discarded
+	 */
+	consume: (
+		key: string,
+		update: (state: RateLimitState | undefined) => RateLimitState,
+		ttl: number,
+	) => void | Promise<void>;
+}
+
+export type RateLimitKey =
+	| "ip"
+	| "user"
+	| { header: string }
+	| { cookie: string }
+	| ((
+			ctx: MiddlewareContext<MiddlewareOptions, Record<string, any>>,
+	  ) => string | undefined | null | Promise<string | undefined | null>);
+
+export interface RateLimitOptions {
+	/**
+	 * Maximum number of requests in a window. For the token bucket, the size
+	 * of the bucket.
+	 */
+	limit: number;
+	/**
+	 * Duration of a window in milliseconds. For the token bucket, the time it
+	 * takes to refill the whole bucket.
+	 */
+	window: number;
+	/**
+	 * @default "fixed-window"
+	 */
+	algorithm?: RateLimitAlgorithm;
+	/**
+	 * How requests are grouped
+	 *
+	 * - `ip` - the client ip, from `getIp` or from `X-Forwarded-For` with
+	 *   `trustProxy`
+	 * - `user` - the `id` of `ctx.context.user`
+	 * - `{ header }` or `{ cookie }` - the value of a header or a cookie
+	 * - a function returning the key from the context
+	 *
+	 * Requests without a key share a single limit.
+	 *
+	 * @default "ip"
+	 */
+	key?: RateLimitKey;
+	/**
+	 * Read the client ip of the `ip` key from the last address of the
+	 * `X-Forwarded-For` header, the one added by the proxy in front of the
+	 * server. Only enable it behind a proxy setting this header, clients can
+	 * send any value otherwise.
+	 *
+	 * @default false
+	 */
+	trustProxy?: boolean;
+	/**
+	 * Get the client ip of the `ip` key, for example from the socket of the
+	 * runtime or from a header set by your CDN
+	 */
+	getIp?: (
+		ctx: MiddlewareContext<MiddlewareOptions, Record<string, any>>,
+	) => string | undefined | null | Promise<string | undefined | null>;
+	/**
+	 * @default an in-memory store
+	 */
+	store?: RateLimitStore;
+	/**
+	 * Prefix of the keys in the store, to share a store between limits
+	 *
+	 * @default "rate-limit"
+	 */
+	prefix?: string;
+}
+
+type RateLimitResult = {
+	allowed: boolean;
+	remaining: number;
+	/**
+	 * Milliseconds until the window ends, or until the bucket is full
+	 */
+	reset: number;
+	/**
+	 * Milliseconds until a request is allowed again
+	 */
+	retryAfter: number;
+	state: RateLimitState;
+};
+
+const algorithms: Record<
+	RateLimitAlgorithm,
+	(
+		state: RateLimitState | undefined,
+		now: number,
+		options: { limit: number; window: number },
+	) => RateLimitResult
+> = {
+	"fixed-window": (state, now, { limit, window }) => {
+		const start = state && now < state.start! + window ? state.start! : now;
+		const count = (start === state?.start ? state.count! : 0) + 1;
+		const reset = start + window - now;
+		return {
+			allowed: count <= limit,
+			remaining: Math.max(0, limit - count),
+			reset,
+			retryAfter: reset,
+			state: { start, count },
+		};
+	},
+	"sliding-window": (state, now, { limit, window }) => {
+		const start = Math.floor(now / window) * window;
+		let current = state?.current ?? 0;
+		let previous = state?.previous ?? 0;
+		if (state?.start !== start) {
+			previous = state?.start === start - window ? current : 0;
+			current = 0;
+		}
+		const weight = (window - (now - start)) / window;
+		const count = previous * weight + current;
+		const allowed = count + 1 <= limit;
+		if (allowed) {
+			current++;
+		}
+		const reset = start + window - now;
+		return {
+			allowed,
+			remaining: Math.max(0, Math.floor(limit - count - (allowed ? 1 : 0))),
+			reset,
+			// the weight of the previous window decreases until the request fits
+			retryAfter: allowed
+				? 0
+				: previous && current + 1 <= limit
+					? Math.ceil(start + window * (1 - (limit - current - 1) / previous) - now)
+					: reset,
+			state: { start, current, previous },
+		};
+	},
+	"token-bucket": (state, now, { limit, window }) => {
+		const rate = limit / window;
+		const tokens = state
+			? Math.min(limit, state.tokens! + (now - state.updated!) * rate)
+			: limit;
+		const allowed = tokens >= 1;
+		const left = allowed ? tokens - 1 : tokens;
+		return {
+			allowed,
+			remaining: Math.floor(left),
+			reset: Math.ceil((limit - left) / rate),
+			retryAfter: allowed ? 0 : Math.ceil((1 - left) / rate),
+			state: { tokens: left, updated: now },
+		};
+	},
+};
+
+/**
+ * Create an in-memory rate limit store
+ *
+ * The states are updated synchronously, so concurrent requests can't
+ * interleave. Expired states are swept at most once a minute.
+ */
+export function createRateLimitMemoryStore(): RateLimitStore {
+	const entries = new Map<string, { state: RateLimitState; expires: number }>();
+	let nextSweep = 0;
+	return {
+		consume(key, update, ttl) {
+			const now = Date.now();
+			const entry = entries.get(key);
+			const state = entry && entry.expires > now ? entry.state : undefined;
+			entries.set(key, { state: update(state), expires: now + ttl });
+			if (now >= nextSweep) {
+				nextSweep = now + 60_000;
+				for (const [key, entry] of entries) {
+					if (entry.expires <= now) entries.delete(key);
+				}
+			}
+		},
+	};
+}
+
+/**
+ * Create a middleware limiting the number of requests
+ *
+ * Responses get the `RateLimit-Limit`, `RateLimit-Remaining`,
+ * `RateLimit-Reset` and `RateLimit-Policy` headers. Requests over the
+ * limit are rejected with a `429 Too Many Requests` error and a
+ * `Retry-After` header.
+ *
+ * @example
+ * ```ts
+ * const limit = createRateLimit({
+ * 		limit: 100,
+ * 		window: 60_000,
+ * 		algorithm: "sliding-window",
+ * 		key: "ip",
+ * 		trustProxy: true,
+ * 	})
+ *
+ * const endpoint = createEndpoint("/search", {
+ * 		method: "GET",
+ * 		use: [limit],
+ * 	}, async (ctx) => { ... })
+ * ```
+ */
+export function createRateLimit(options: RateLimitOptions) {
+	const algorithm = algorithms[options.algorithm || "fixed-window"];
+	const store = options.store || createRateLimitMemoryStore();
+	const prefix = options.prefix || "rate-limit";
+	const keyOption = options.key || "ip";
+	if (keyOption === "ip" && !options.trustProxy && !options.getIp) {
+		throw new BetterCallError(
+			"The ip key of the rate limit requires `getIp` or `trustProxy` to know the client ip",
+		);
+	}
+
+	return createMiddleware(async (ctx) => {
+		const context = ctx as MiddlewareContext<MiddlewareOptions, Record<string, any>>;
+		const key =
+			typeof keyOption === "function"
+				? await keyOption(context)
+				: keyOption === "ip"
+					? options.getIp
+						? await options.getIp(context)
+						: ctx.getHeader("x-forwarded-for")?.split(",").at(-1)?.trim()
+					: keyOption === "user"
+						? context.context?.user?.id
+						: "header" in keyOption
+							? ctx.getHeader(keyOption.header)
+							: ctx.getCookie(keyOption.cookie);
+
+		// requests without a key are limited together, so they can't skip the limit
+		const storeKey = key ? `${prefix}:${String(key)}` : prefix;
+		let result!: RateLimitResult;
+		// a state is never needed after two windows, the reset is at most one window away
+		await store.consume(
+			storeKey,
+			(state) => {
+				result = algorithm(state, Date.now(), options);
+				return result.state;
+			},
+			2 * options.window,
+		);
+
+		const headers = {
+			"RateLimit-Limit": String(options.limit),
+			"RateLimit-Remaining": String(result.remaining),
+			"RateLimit-Reset": String(Math.ceil(result.reset / 1000)),
+			"RateLimit-Policy": `${options.limit};w=${Math.ceil(options.window / 1000)}`,
+		};
+		if (!result.allowed) {
+			throw new APIError(
+				"TOO_MANY_REQUESTS",
+				{
+					message: "Too many requests",
+					code: "RATE_LIMITED",
+				},
+				{
+					...headers,
+					"Retry-After": String(Math.max(1, Math.ceil(result.retryAfter / 1000))),
+				},
+			);
+		}
+		for (const [name, value] of Object.entries(headers)) {
+			ctx.setHeader(name, value);
+		}
+	});
+}
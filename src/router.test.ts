@@ -1,10 +1,13 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, expectTypeOf, it } from "vitest";
 import { createEndpoint, type Endpoint } from "./endpoint";
 import { createRouter } from "./router";
 import { z } from "zod";
-import { APIError } from "./error";
+import { APIError, BetterCallError } from "./error";
+import { createClient } from "./client";
+import { generator } from "./openapi";
 import { getRequest } from "./adapters/node/request";
 import { toResponse } from "./to-response";
+import { createMiddleware } from "./middleware";
 
 describe("router", () => {
 	it("should be able to return simple response", async () => {
@@ -377,6 +380,30 @@ describe("router", () => {
 		expect(response).toMatchObject({ id: "1" });
 	});
 
+	it("should validate and coerce dynamic params with a params schema", async () => {
+		const endpoint = createEndpoint(
+			"/post/:id",
+			{
+				method: "GET",
+				params: z.object({
+					id: z.coerce.number(),
+				}),
+			},
+			async (c) => {
+				return { id: c.params.id, type: typeof c.params.id };
+			},
+		);
+		const router = createRouter({
+			endpoint,
+		});
+		const response = await router.handler(new Request("http://localhost/post/1"));
+		expect(await response.json()).toEqual({ id: 1, type: "number" });
+
+		const invalid = await router.handler(new Request("http://localhost/post/abc"));
+		expect(invalid.status).toBe(400);
+		expect(await invalid.json()).toMatchObject({ code: "VALIDATION_ERROR" });
+	});
+
 	it("should handle API Errors", async () => {
 		const endpoint = createEndpoint(
 			"/",
@@ -411,6 +438,71 @@ describe("router", () => {
 		expect(text).toBe("/test/api/v1/test");
 	});
 
+	describe("methods", () => {
+		const getItem = createEndpoint("/item", { method: "GET" }, async (ctx) => {
+			ctx.setHeader("x-item", "1");
+			return { id: 1 };
+		});
+		const updateItem = createEndpoint("/item", { method: ["PUT", "PATCH"] }, async () => {
+			return { updated: true };
+		});
+		const createItem = createEndpoint("/create", { method: "POST" }, async () => {
+			return { created: true };
+		});
+		const router = createRouter({ getItem, updateItem, createItem });
+
+		it("should return 405 with an Allow header for unsupported methods", async () => {
+			const response = await router.handler(
+				new Request("http://localhost/item", { method: "DELETE" }),
+			);
+			expect(response.status).toBe(405);
+			expect(response.headers.get("allow")).toBe("GET, PUT, PATCH, HEAD, OPTIONS");
+
+			const post = await router.handler(new Request("http://localhost/create"));
+			expect(post.status).toBe(405);
+			expect(post.headers.get("allow")).toBe("POST, OPTIONS");
+		});
+
+		it("should return 404 when no method matches the path", async () => {
+			const response = await router.handler(
+				new Request("http://localhost/item/", { method: "DELETE" }),
+			);
+			expect(response.status).toBe(404);
+			expect(response.headers.get("allow")).toBeNull();
+		});
+
+		it("should answer OPTIONS requests", async () => {
+			const response = await router.handler(
+				new Request("http://localhost/create", { method: "OPTIONS" }),
+			);
+			expect(response.status).toBe(204);
+			expect(response.headers.get("allow")).toBe("POST, OPTIONS");
+		});
+
+		it("should serve HEAD requests from GET endpoints without a body", async () => {
+			const response = await router.handler(
+				new Request("http://localhost/item", { method: "HEAD" }),
+			);
+			expect(response.status).toBe(200);
+			expect(response.headers.get("x-item")).toBe("1");
+			expect(response.headers.get("content-type")).toBe("application/json");
+			expect(await response.text()).toBe("");
+		});
+
+		it("should prefer explicit HEAD endpoints", async () => {
+			const head = createEndpoint("/item", { method: "HEAD" }, async (ctx) => {
+				ctx.setHeader("x-head", "1");
+				return null;
+			});
+			const router = createRouter({ getItem, head });
+			const response = await router.handler(
+				new Request("http://localhost/item", { method: "HEAD" }),
+			);
+			expect(response.headers.get("x-head")).toBe("1");
+			expect(response.headers.get("x-item")).toBeNull();
+		});
+	});
+
 	it("node adapter getRequest should include Express baseUrl when present", async () => {
 		const base = "http://localhost:3000";
 		const fakeReq: any = {
@@ -456,6 +548,139 @@ describe("route middleware", () => {
 		const json = await response.json();
 		expect(json).toMatchObject({ name: "hello" });
 	});
+
+	it("should merge the context returned from router middleware", async () => {
+		const session = createMiddleware(async (ctx) => {
+			return {
+				session: { user: ctx.getHeader("x-user") },
+			};
+		});
+		const routerMiddleware = [{ path: "/api/**", middleware: session }];
+		const createAPIEndpoint = createEndpoint.create({ routerMiddleware });
+		const me = createAPIEndpoint(
+			"/api/me",
+			{
+				method: "GET",
+			},
+			async (ctx) => {
+				expectTypeOf(ctx.context.session).toEqualTypeOf<{ user: string | null }>();
+				return ctx.context;
+			},
+		);
+		const outside = createEndpoint(
+			"/outside",
+			{
+				method: "GET",
+			},
+			async (ctx) => {
+				return ctx.context;
+			},
+		);
+		const routerContext = { app: "test" };
+		const router = createRouter({ me, outside }, { routerMiddleware, routerContext });
+
+		const response = await router.handler(
+			new Request("http://localhost/api/me", {
+				headers: {
+					"x-user": "john",
+				},
+			}),
+		);
+		expect(await response.json()).toEqual({ app: "test", session: { user: "john" } });
+
+		const outsideResponse = await router.handler(new Request("http://localhost/outside"));
+		expect(await outsideResponse.json()).toEqual({ app: "test" });
+		expect(routerContext).toEqual({ app: "test" });
+	});
+
+	it("should end the request when an endpoint middleware returns a response", async () => {
+		const cache = createMiddleware(async () => {
+			return Response.json({ cached: true });
+		});
+		const endpoint = createEndpoint(
+			"/cached",
+			{
+				method: "GET",
+				use: [cache],
+			},
+			async () => {
+				return { cached: false };
+			},
+		);
+		const router = createRouter({ endpoint });
+		const response = await router.handler(new Request("http://localhost/cached"));
+		expect(await response.json()).toEqual({ cached: true });
+	});
+
+	it("should wrap the response with around middleware", async () => {
+		const endpoint = createEndpoint(
+			"/item",
+			{
+				method: "GET",
+			},
+			async (ctx) => {
+				ctx.setHeader("X-Endpoint", "true");
+				return { name: "hello" };
+			},
+		);
+		const fails = createEndpoint(
+			"/fails",
+			{
+				method: "GET",
+			},
+			async () => {
+				throw new Error("boom");
+			},
+		);
+		const timing = createMiddleware.around(async (ctx, next) => {
+			try {
+				const response: Response = await next();
+				ctx.setHeader("X-Timing", "1");
+				return response;
+			} catch {
+				ctx.setStatus(503);
+				return { message: "unavailable" };
+			}
+		});
+		const router = createRouter(
+			{ endpoint, fails },
+			{
+				routerMiddleware: [
+					{
+						path: "/**",
+						middleware: timing,
+					},
+				],
+			},
+		);
+		const response = await router.handler(new Request("http://localhost/item"));
+		expect(response.headers.get("X-Timing")).toBe("1");
+		expect(response.headers.get("X-Endpoint")).toBe("true");
+		expect(await response.json()).toEqual({ name: "hello" });
+
+		const failed = await router.handler(new Request("http://localhost/fails"));
+		expect(failed.status).toBe(503);
+		expect(await failed.json()).toEqual({ message: "unavailable" });
+	});
+
+	it("should keep the cookies of the endpoint with an around router middleware", async () => {
+		const endpoint = createEndpoint("/cookies", { method: "GET" }, async (ctx) => {
+			ctx.setCookie("a", "1");
+			ctx.setCookie("b", "2");
+			return "ok";
+		});
+		const middleware = createMiddleware.around(async (ctx, next) => {
+			const response = await next();
+			ctx.setCookie("m", "3");
+			return response;
+		});
+		const router = createRouter(
+			{ endpoint },
+			{ routerMiddleware: [{ path: "/**", middleware }] },
+		);
+		const response = await router.handler(new Request("http://localhost/cookies"));
+		expect(response.headers.getSetCookie()).toEqual(["a=1", "b=2", "m=3"]);
+	});
 });
 
 describe("error handling", () => {
@@ -914,6 +1139,32 @@ describe("error handling", () => {
 	});
 });
 
+describe("timeout", () => {
+	it("should return 504 when the router timeout is reached", async () => {
+		const endpoint = createEndpoint(
+			"/slow",
+			{
+				method: "GET",
+			},
+			async () => {
+				await new Promise((resolve) => setTimeout(resolve, 100));
+				return "done";
+			},
+		);
+		const router = createRouter(
+			{
+				endpoint,
+			},
+			{
+				timeout: 10,
+			},
+		);
+		const response = await router.handler(new Request("http://localhost/slow"));
+		expect(response.status).toBe(504);
+		expect(await response.json()).toMatchObject({ code: "GATEWAY_TIMEOUT" });
+	});
+});
+
 describe("base path", () => {
 	it("should work with base path", async () => {
 		const endpoint = createEndpoint(
@@ -949,3 +1200,281 @@ describe("base path", () => {
 		expect(text).toBe("hello world");
 	});
 });
+
+describe("mount", () => {
+	const session = createMiddleware(async () => {
+		return {
+			session: "active",
+		};
+	});
+	const signIn = createEndpoint(
+		"/sign-in",
+		{
+			method: "POST",
+			body: z.object({
+				email: z.string(),
+			}),
+		},
+		async (ctx) => {
+			return { email: ctx.body.email, context: ctx.context };
+		},
+	);
+	const fails = createEndpoint(
+		"/fails",
+		{
+			method: "GET",
+		},
+		async () => {
+			throw new Error("auth failure");
+		},
+	);
+	const index = createEndpoint(
+		"/",
+		{
+			method: "GET",
+		},
+		async () => {
+			return "auth";
+		},
+	);
+	const authRouter = createRouter(
+		{ signIn, fails, index },
+		{
+			routerMiddleware: [{ path: "/**", middleware: session }],
+			routerContext: { service: "auth" },
+			allowedMediaTypes: ["application/json"],
+			onError: (e) => {
+				if (e instanceof APIError) return;
+				return Response.json({ handledBy: "auth" }, { status: 500 });
+			},
+			openapi: {
+				tags: ["Auth"],
+			},
+		},
+	);
+	const health = createEndpoint(
+		"/health",
+		{
+			method: "GET",
+		},
+		async (ctx) => {
+			return ctx.context;
+		},
+	);
+	const router = createRouter(
+		{ health },
+		{
+			routerContext: { app: "main", service: "main" },
+			mount: {
+				"/auth": authRouter,
+			},
+		},
+	);
+
+	it("should serve the endpoints of a mounted router under its prefix", async () => {
+		const response = await router.handler(
+			new Request("http://localhost/auth/sign-in", {
+				method: "POST",
+				headers: {
+					"content-type": "application/json",
+				},
+				body: JSON.stringify({ email: "a@b.c" }),
+			}),
+		);
+		expect(await response.json()).toEqual({
+			email: "a@b.c",
+			context: { app: "main", service: "auth", session: "active" },
+		});
+		const indexResponse = await router.handler(new Request("http://localhost/auth"));
+		expect(await indexResponse.text()).toBe("auth");
+		const notFound = await router.handler(new Request("http://localhost/sign-in"));
+		expect(notFound.status).toBe(404);
+	});
+
+	it("should keep the config of the mounted router", async () => {
+		const healthResponse = await router.handler(new Request("http://localhost/health"));
+		expect(await healthResponse.json()).toEqual({ app: "main", service: "main" });
+
+		const unsupported = await router.handler(
+			new Request("http://localhost/auth/sign-in", {
+				method: "POST",
+				headers: {
+					"content-type": "text/plain",
+				},
+				body: "hello",
+			}),
+		);
+		expect(unsupported.status).toBe(415);
+
+		const failed = await router.handler(new Request("http://localhost/auth/fails"));
+		expect(await failed.json()).toEqual({ handledBy: "auth" });
+	});
+
+	it("should type the mounted endpoints for the client", async () => {
+		const client = createClient<typeof router>({
+			baseURL: "http://localhost",
+			customFetchImpl: async (url, init) => router.handler(new Request(url, init)),
+		});
+		const { data } = await client("@post/auth/sign-in", {
+			body: {
+				email: "a@b.c",
+			},
+		});
+		expect(data?.email).toBe("a@b.c");
+		expectTypeOf(data!.email).toEqualTypeOf<string>();
+		//@ts-expect-error
+		client("@post/sign-in", { body: { email: "a@b.c" } }).catch(() => {});
+	});
+
+	it("should add the tags of the mounted router to the openapi schema", async () => {
+		const schema = await generator(router.endpoints);
+		expect(schema.paths["/auth/sign-in"]?.post?.tags).toEqual(["Default", "Auth"]);
+		expect(schema.paths["/health"]?.get?.tags).toEqual(["Default"]);
+	});
+
+	it("should throw on invalid mount paths", () => {
+		expect(() => createRouter({}, { mount: { "/auth/": authRouter } })).toThrowError(
+			BetterCallError,
+		);
+	});
+});
+
+describe("hooks", () => {
+	const auth = createMiddleware(async () => {
+		return { user: "john" };
+	});
+	const getItem = createEndpoint(
+		"/item/:id",
+		{ method: "GET", use: [auth], metadata: { audit: true } },
+		async (ctx) => {
+			return { id: ctx.params.id };
+		},
+	);
+	const updateItem = createEndpoint("/item/:id", { method: "POST" }, async (ctx) => {
+		return { id: ctx.params.id, updated: true };
+	});
+	const admin = createEndpoint("/admin/stats", { method: "GET" }, async () => {
+		return { count: 1 };
+	});
+
+	it("should run hooks matching the metadata with the endpoint context", async () => {
+		const audit: any[] = [];
+		const router = createRouter(
+			{ getItem, updateItem },
+			{
+				hooks: {
+					after: [
+						{
+							metadata: (metadata) => metadata?.audit === true,
+							handler: (ctx, returned) => {
+								audit.push({
+									path: ctx.path,
+									params: ctx.params,
+									user: ctx.context.user,
+									returned,
+								});
+							},
+						},
+					],
+				},
+			},
+		);
+		await router.handler(new Request("http://localhost/item/1"));
+		await router.handler(new Request("http://localhost/item/1", { method: "POST" }));
+		expect(audit).toEqual([
+			{ path: "/item/1", params: { id: "1" }, user: "john", returned: { id: "1" } },
+		]);
+	});
+
+	it("should match hooks by path and method", async () => {
+		const calls: string[] = [];
+		const router = createRouter(
+			{ getItem, updateItem, admin },
+			{
+				hooks: {
+					before: [
+						{
+							path: "/admin/**",
+							handler: (ctx) => {
+								calls.push(`admin ${ctx.path}`);
+							},
+						},
+						{
+							path: ["/item/:id"],
+							method: "POST",
+							handler: (ctx) => {
+								calls.push(`post ${ctx.path}`);
+							},
+						},
+					],
+				},
+			},
+		);
+		await router.handler(new Request("http://localhost/admin/stats"));
+		await router.handler(new Request("http://localhost/item/1"));
+		await router.handler(new Request("http://localhost/item/2", { method: "POST" }));
+		expect(calls).toEqual(["admin /admin/stats", "post /item/2"]);
+	});
+
+	it("should let hooks reject requests, modify the returned value and set headers", async () => {
+		const router = createRouter(
+			{ getItem, admin },
+			{
+				hooks: {
+					before: [
+						{
+							path: "/admin/**",
+							handler: (ctx) => {
+								if (ctx.getHeader("x-admin") !== "true") {
+									throw ctx.error("FORBIDDEN");
+								}
+							},
+						},
+					],
+					after: [
+						{
+							handler: (ctx, returned) => {
+								ctx.setHeader("x-hooked", "true");
+								return { ...(returned as object), hooked: true };
+							},
+						},
+					],
+				},
+			},
+		);
+		const forbidden = await router.handler(new Request("http://localhost/admin/stats"));
+		expect(forbidden.status).toBe(403);
+
+		const response = await router.handler(new Request("http://localhost/item/1"));
+		expect(response.headers.get("x-hooked")).toBe("true");
+		expect(await response.json()).toEqual({ id: "1", hooked: true });
+	});
+
+	it("should scope the hooks of mounted routers to their prefix", async () => {
+		const calls: string[] = [];
+		const child = createRouter(
+			{ admin },
+			{
+				hooks: {
+					before: [{ handler: (ctx) => void calls.push(`child ${ctx.path}`) }],
+				},
+			},
+		);
+		const router = createRouter(
+			{ getItem },
+			{
+				mount: { "/child": child },
+				hooks: {
+					before: [{ handler: (ctx) => void calls.push(`parent ${ctx.path}`) }],
+				},
+			},
+		);
+		await router.handler(new Request("http://localhost/item/1"));
+		await router.handler(new Request("http://localhost/child/admin/stats"));
+		expect(calls).toEqual([
+			"parent /item/1",
+			"parent /child/admin/stats",
+			"child /child/admin/stats",
+		]);
+	});
+});
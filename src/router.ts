@@ -1,18 +1,117 @@
 import { addRoute, createRouter as createRou3Router, findAllRoutes, findRoute } from "rou3";
-import { type Endpoint, createEndpoint } from "./endpoint";
+import { type CompressionOptions, compressResponse } from "./compression";
+import { generateETag, handleConditionalRequest } from "./etag";
+import {
+	applyCORSHeaders,
+	type CORSOptions,
+	getCORSHeaders,
+	getPreflightHeaders,
+	validateCORSOptions,
+} from "./cors";
+import { type CSRFOptions, verifyCSRF } from "./csrf";
+import type { Method } from "./context";
+import {
+	type Endpoint,
+	type EndpointContext,
+	type EndpointOptions,
+	type StrictEndpoint,
+	createEndpoint,
+} from "./endpoint";
+import { BetterCallError } from "./error";
+import type { UnionToIntersection } from "./helper";
 import type { Middleware } from "./middleware";
+import { createLogger, type LoggerOptions } from "./logger";
 import { generator, getHTML } from "./openapi";
 import { toResponse } from "./to-response";
-import { getBody, isAPIError, isRequest } from "./utils";
+import { SpanStatusCode, type Tracer, withSpan } from "./tracing";
+import { getBody, isAPIError, isAroundMiddleware, isRequest } from "./utils";
+
+export type RouterMiddleware = {
+	path: string;
+	middleware: Middleware;
+};
+
+/**
+ * Selects the endpoints a router hook applies to. All the given conditions
+ * must match.
+ */
+export type RouteMatcher = {
+	/**
+	 * Path patterns matched against the request path, with the syntax of the
+	 * endpoint paths (`/user/:id`, `/admin/*`, `/admin/**`)
+	 */
+	path?: string | string[];
+	method?: Method | Method[];
+	metadata?: (metadata: EndpointOptions["metadata"]) => boolean;
+};
+
+export type BeforeHook = RouteMatcher & {
+	/**
+	 * Runs before the handler of the matched endpoints. Throw an `APIError`
+	 * to reject the request.
+	 */
+	handler: (
+		ctx: EndpointContext<string, EndpointOptions, Record<string, any>>,
+	) => void | Promise<void>;
+};
+
+export type AfterHook = RouteMatcher & {
+	/**
+	 * Runs after the handler of the matched endpoints with the value it
+	 * returned. Returning a value other than `undefined` replaces it.
+	 */
+	handler: (
+		ctx: EndpointContext<string, EndpointOptions, Record<string, any>>,
+		returned: unknown,
+	) => unknown;
+};
+
+export type RouterHooks = {
+	before?: BeforeHook[];
+	after?: AfterHook[];
+};
+
+/**
+ * A router that can be mounted in another router
+ */
+export type MountableRouter = {
+	endpoints: Record<string, Endpoint>;
+	config?: RouterConfig;
+};
 
 export interface RouterConfig {
 	throwError?: boolean;
 	onError?: (e: unknown) => void | Promise<void> | Response | Promise<Response>;
 	basePath?: string;
-	routerMiddleware?: Array<{
-		path: string;
-		middleware: Middleware;
-	}>;
+	/**
+	 * Middlewares to run before the endpoints matching their path pattern
+	 *
+	 * The object returned from a middleware is merged into `ctx.context` of
+	 * the endpoint. Use `createEndpoint.create({ routerMiddleware })` to type
+	 * it on the endpoints.
+	 */
+	routerMiddleware?: RouterMiddleware[];
+	/**
+	 * Hooks running before and after the handlers of the endpoints they
+	 * match, with the context of the endpoint
+	 *
+	 * @example
+	 * ```ts
+	 * const router = createRouter(endpoints, {
+	 * 		hooks: {
+	 * 			after: [
+	 * 				{
+	 * 					metadata: (metadata) => metadata?.audit === true,
+	 * 					handler: async (ctx, returned) => {
+	 * 						await audit(ctx.path, ctx.context.user);
+	 * 					},
+	 * 				},
+	 * 			],
+	 * 		},
+	 * 	})
+	 * ```
+	 */
+	hooks?: RouterHooks;
 	/**
 	 * additional Context that needs to passed to endpoints
 	 *
@@ -41,12 +140,130 @@ export interface RouterConfig {
 	 * 	})
 	 */
 	allowedMediaTypes?: string[];
+	/**
+	 * Time in milliseconds after which requests are aborted and a
+	 * `504 Gateway Timeout` error is returned
+	 *
+	 * Endpoints can set their own `timeout`, whichever is reached first applies.
+	 */
+	timeout?: number;
 	/**
 	 * Skip trailing slashes
 	 *
 	 * @default false
 	 */
 	skipTrailingSlashes?: boolean;
+	/**
+	 * CORS configuration
+	 *
+	 * Adds the CORS headers to the responses of the endpoints and answers
+	 * preflight requests with the methods registered for the path. Endpoints
+	 * can override it with `metadata.cors`, or disable it with
+	 * `metadata.cors: false`.
+	 *
+	 * @example
+	 * ```ts
+	 * const router = createRouter({ getUser }, {
+	 * 		cors: {
+	 * 			origin: ["https://example.com"],
+	 * 			credentials: true,
+	 * 		},
+	 * 	})
+	 * ```
+	 */
+	cors?: CORSOptions;
+	/**
+	 * CSRF protection
+	 *
+	 * Rejects cross-site requests to state-changing methods with a
+	 * `403 Forbidden` error, based on `Sec-Fetch-Site`, `Origin` and
+	 * `Referer`. Enable `token` to also require a double-submit token.
+	 * Endpoints can override it with `metadata.csrf`, or disable it with
+	 * `metadata.csrf: false`.
+	 *
+	 * @example
+	 * ```ts
+	 * const router = createRouter({ updateUser }, {
+	 * 		csrf: {
+	 * 			trustedOrigins: ["https://example.com"],
+	 * 		},
+	 * 	})
+	 * ```
+	 */
+	csrf?: CSRFOptions;
+	/**
+	 * Response compression
+	 *
+	 * Compresses the responses with the encoding negotiated from the
+	 * `Accept-Encoding` header of the request. Responses smaller than the
+	 * threshold, already encoded responses and server-sent events aren't
+	 * compressed.
+	 *
+	 * @example
+	 * ```ts
+	 * const router = createRouter({ getUsers }, {
+	 * 		compression: {
+	 * 			threshold: 2048,
+	 * 		},
+	 * 	})
+	 * ```
+	 */
+	compression?: CompressionOptions;
+	/**
+	 * Generate a strong `ETag` from the body of the successful responses
+	 *
+	 * GET and HEAD requests with a matching `If-None-Match` or
+	 * `If-Modified-Since` header get a `304 Not Modified` response, also for
+	 * the validators set with `ctx.setETag` and `ctx.setLastModified`.
+	 * Endpoints can override it with `metadata.etag`.
+	 *
+	 * @default false
+	 */
+	etag?: boolean;
+	/**
+	 * Tracer receiving a span for each phase of the requests: `request`,
+	 * `parse`, `validation`, `middleware`, `handler` and `serialization`
+	 *
+	 * Accepts OpenTelemetry tracers. Use `createMemoryTracer` to capture the
+	 * spans in tests.
+	 */
+	tracer?: Tracer;
+	/**
+	 * Structured logging of the requests and of the unhandled errors
+	 *
+	 * When not set, only the unhandled errors are logged with
+	 * `console.error`. Set it to `false` to disable logging.
+	 *
+	 * @example
+	 * ```ts
+	 * const router = createRouter(endpoints, {
+	 * 		logger: {
+	 * 			format: "common",
+	 * 			sink: (line) => process.stdout.write(`${line}\n`),
+	 * 		},
+	 * 	})
+	 * ```
+	 */
+	logger?: LoggerOptions | false;
+	/**
+	 * Routers to mount under a path prefix
+	 *
+	 * The endpoints of a mounted router are served under the prefix and keep
+	 * the `routerMiddleware`, `onError`, `routerContext`, `allowedMediaTypes`
+	 * and openapi `tags` of their router. The middlewares, context and
+	 * `onError` of the parent router still apply.
+	 *
+	 * @example
+	 * ```ts
+	 * const router = createRouter({ health }, {
+	 * 		mount: {
+	 * 			"/auth": authRouter,
+	 * 			"/billing": billingRouter,
+	 * 		},
+	 * 	})
+	 * ```
+	 */
+	mount?: Record<string, MountableRouter>;
 	/**
 	 * Open API route configuration
 	 */
@@ -63,6 +280,10 @@ export interface RouterConfig {
 		 * @default "/api/reference"
 		 */
 		path?: string;
+		/**
+		 * Tags added to the endpoints of the router
+		 */
+		tags?: string[];
 		/**
 		 * Scalar Configuration
 		 */
@@ -91,10 +312,131 @@ export interface RouterConfig {
 	};
 }
 
+type MountedEndpoint<Prefix extends string, T> = T extends Endpoint<infer Path, infer Options>
+	? StrictEndpoint<
+			Path extends "/" ? Prefix : `${Prefix}${Path}`,
+			Options,
+			Awaited<ReturnType<T>>
+		>
+	: never;
+
+export type MountedEndpoints<Mount> = Mount extends Record<string, MountableRouter>
+	? UnionToIntersection<
+			{
+				[Prefix in keyof Mount & string]: {
+					[K in keyof Mount[Prefix]["endpoints"] &
+						string as `${Prefix}:${K}`]: MountedEndpoint<
+						Prefix,
+						Mount[Prefix]["endpoints"][K]
+					>;
+				};
+			}[keyof Mount & string]
+		>
+	: {};
+
+/**
+ * The configs of the routers an endpoint was mounted through, innermost first
+ */
+const mountedScopes = new WeakMap<Endpoint, RouterConfig[]>();
+
+function mountEndpoint(prefix: string, endpoint: Endpoint, config: RouterConfig = {}) {
+	const tags = config.openapi?.tags;
+	const metadata = endpoint.options.metadata;
+	const options = tags?.length
+		? {
+				...endpoint.options,
+				metadata: {
+					...metadata,
+					openapi: {
+						...metadata?.openapi,
+						tags: [...tags, ...(metadata?.openapi?.tags || [])],
+					},
+				},
+			}
+		: endpoint.options;
+	const mounted = Object.assign((context: any) => endpoint(context), {
+		options,
+		path: endpoint.path === "/" ? prefix : `${prefix}${endpoint.path}`,
+	}) as Endpoint;
+	mountedScopes.set(mounted, [...(mountedScopes.get(endpoint) || []), config]);
+	return mounted;
+}
+
+/**
+ * Apply the headers set by a router middleware to the response, keeping the
+ * cookies of the endpoint
+ */
+function applyMiddlewareHeaders(response: Response, headers: Headers) {
+	headers.forEach((value, key) => {
+		if (key === "set-cookie") {
+			response.headers.append(key, value);
+		} else {
+			response.headers.set(key, value);
+		}
+	});
+}
+
+function getRouterMiddleware(config?: RouterConfig, prefix = ""): RouterMiddleware[] {
+	return [
+		...(config?.routerMiddleware || []).map(({ path, middleware }) => ({
+			path: `${prefix}${path}`,
+			middleware,
+		})),
+		...Object.entries(config?.mount || {}).flatMap(([mountPath, router]) =>
+			getRouterMiddleware(router.config, `${prefix}${mountPath}`),
+		),
+	];
+}
+
+function getRouterHooks<K extends keyof RouterHooks>(
+	config: RouterConfig | undefined,
+	key: K,
+	prefix = "",
+): NonNullable<RouterHooks[K]> {
+	return [
+		...(config?.hooks?.[key] || []).map((hook) =>
+			prefix
+				? {
+						...hook,
+						path: [hook.path ?? "/**"].flat().map((path) => `${prefix}${path}`),
+					}
+				: hook,
+		),
+		...Object.entries(config?.mount || {}).flatMap(([mountPath, router]) =>
+			getRouterHooks(router.config, key, `${prefix}${mountPath}`),
+		),
+	] as NonNullable<RouterHooks[K]>;
+}
+
+function compileHooks<H extends RouteMatcher>(hooks: H[]) {
+	return hooks.map((hook) => {
+		if (!hook.path) return { hook };
+		const router = createRou3Router<true>();
+		for (const path of [hook.path].flat()) {
+			addRoute(router, "", path, true);
+		}
+		return { hook, router };
+	});
+}
+
 export const createRouter = <E extends Record<string, Endpoint>, Config extends RouterConfig>(
 	endpoints: E,
 	config?: Config,
 ) => {
+	for (const [prefix, mounted] of Object.entries(config?.mount || {})) {
+		if (!prefix.startsWith("/") || prefix.endsWith("/")) {
+			throw new BetterCallError(
+				`Mount path "${prefix}" must start with a slash and not end with one`,
+			);
+		}
+		for (const [key, endpoint] of Object.entries(mounted.endpoints)) {
+			// the openapi reference of the mounted router
+			if (key === "openapi" && !mounted.config?.openapi?.disabled) continue;
+			if (!endpoint.path) continue;
+			//@ts-expect-error
+			endpoints[`${prefix}:${key}`] = mountEndpoint(prefix, endpoint, mounted.config);
+		}
+	}
 	if (!config?.openapi?.disabled) {
 		const openapi = {
 			path: "/api/reference",
@@ -107,7 +449,9 @@ export const createRouter = <E extends Record<string, Endpoint>, Config extends
 				method: "GET",
 			},
 			async (c) => {
-				const schema = await generator(endpoints);
+				const schema = await generator(endpoints, {
+					tags: openapi.tags,
+				});
 				return new Response(getHTML(schema, openapi.scalar), {
 					headers: {
 						"Content-Type": "text/html",
@@ -118,6 +462,7 @@ export const createRouter = <E extends Record<string, Endpoint>, Config extends
 	}
 	const router = createRou3Router();
 	const middlewareRouter = createRou3Router();
+	const registeredMethods = new Set<string>();
 
 	for (const endpoint of Object.values(endpoints)) {
 		if (!endpoint.options || !endpoint.path) {
@@ -131,16 +476,76 @@ export const createRouter = <E extends Record<string, Endpoint>, Config extends
 
 		for (const method of methods) {
 			addRoute(router, method, endpoint.path, endpoint);
+			registeredMethods.add(method.toUpperCase());
 		}
 	}
 
-	if (config?.routerMiddleware?.length) {
-		for (const { path, middleware } of config.routerMiddleware) {
-			addRoute(middlewareRouter, "*", path, middleware);
+	const matchRoute = (method: string, path: string) => {
+		const route = findRoute(router, method, path) as
+			| {
+					data: Endpoint & { path: string };
+					params: Record<string, string>;
+			  }
+			| undefined;
+		if (!route?.data) return undefined;
+		// If the path has a trailing slash and the route doesn't have a trailing slash and skipTrailingSlashes is not set, don't match
+		if (path.endsWith("/") !== route.data.path.endsWith("/") && !config?.skipTrailingSlashes) {
+			return undefined;
 		}
+		return route;
+	};
+
+	/**
+	 * Merge the `cors` or `csrf` options of the endpoint over the ones of its router
+	 */
+	const getEndpointOptions = <K extends "cors" | "csrf">(
+		endpoint: Endpoint,
+		key: K,
+	): RouterConfig[K] | undefined => {
+		const options = endpoint.options.metadata?.[key];
+		if (options === false) return undefined;
+		const scopes = mountedScopes.get(endpoint) || [];
+		const routerOptions = scopes.find((scope) => scope[key])?.[key] || config?.[key];
+		if (!routerOptions && !options) return undefined;
+		return { ...routerOptions, ...options };
+	};
+
+	// invalid cors options fail when the router is created, not on the first request
+	for (const endpoint of Object.values(endpoints)) {
+		const cors = getEndpointOptions(endpoint, "cors");
+		if (cors) validateCORSOptions(cors);
+	}
+
+	const beforeHooks = compileHooks(getRouterHooks(config, "before"));
+	const afterHooks = compileHooks(getRouterHooks(config, "after"));
+	const matchHooks = <H extends BeforeHook | AfterHook>(
+		hooks: ReturnType<typeof compileHooks<H>>,
+		endpoint: Endpoint,
+		method: string,
+		path: string,
+	) =>
+		hooks
+			.filter(
+				({ hook, router }) =>
+					(!router || !!findRoute(router, "", path)) &&
+					(!hook.method || [hook.method].flat().includes(method as Method)) &&
+					(!hook.metadata || hook.metadata(endpoint.options.metadata)),
+			)
+			.map(({ hook }) => hook.handler);
+
+	for (const { path, middleware } of getRouterMiddleware(config)) {
+		addRoute(middlewareRouter, "*", path, middleware);
 	}
 
-	const processRequest = async (request: Request) => {
+	const logger =
+		config?.logger === false ? undefined : createLogger(config?.logger ?? { access: false });
+
+	/**
+	 * The request id and the endpoint matched for a request
+	 */
+	type RequestState = { requestId: string; endpoint?: Endpoint };
+
+	const processRequest = async (request: Request, state: RequestState) => {
 		const url = new URL(request.url);
 		const pathname = url.pathname;
 		const path =
@@ -168,18 +573,47 @@ export const createRouter = <E extends Record<string, Endpoint>, Config extends
 			return new Response(null, { status: 404, statusText: "Not Found" });
 		}
 
-		const route = findRoute(router, request.method, path) as {
-			data: Endpoint & { path: string };
-			params: Record<string, string>;
-		};
-		const hasTrailingSlash = path.endsWith("/");
-		const routeHasTrailingSlash = route?.data?.path?.endsWith("/");
-
-		// If the path has a trailing slash and the route doesn't have a trailing slash and skipTrailingSlashes is not set, return 404
-		if (hasTrailingSlash !== routeHasTrailingSlash && !config?.skipTrailingSlashes) {
-			return new Response(null, { status: 404, statusText: "Not Found" });
+		let route = matchRoute(request.method, path);
+		if (!route) {
+			const allowed = [...registeredMethods].filter(
+				(method) => method !== "*" && matchRoute(method, path),
+			);
+			if (!allowed.length) {
+				return new Response(null, { status: 404, statusText: "Not Found" });
+			}
+			if (allowed.includes("GET") && !allowed.includes("HEAD")) {
+				allowed.push("HEAD");
+			}
+			if (request.method === "HEAD" && allowed.includes("GET")) {
+				// HEAD is served by the GET endpoint, the body is stripped by the handler
+				route = matchRoute("GET", path)!;
+			} else {
+				const headers = {
+					Allow: [...allowed, "OPTIONS"].join(", "),
+				};
+				if (request.method === "OPTIONS") {
+					const response = new Response(null, { status: 204, headers });
+					const requestMethod = request.headers
+						.get("access-control-request-method")
+						?.toUpperCase();
+					const target =
+						requestMethod &&
+						(matchRoute(requestMethod, path) ||
+							(requestMethod === "HEAD" ? matchRoute("GET", path) : undefined));
+					const cors = target ? getEndpointOptions(target.data, "cors") : undefined;
+					if (!cors) return response;
+					return applyCORSHeaders(
+						response,
+						await getPreflightHeaders(cors, request, allowed),
+					);
+				}
+				return new Response(null, {
+					status: 405,
+					statusText: "Method Not Allowed",
+					headers,
+				});
+			}
 		}
-		if (!route?.data) return new Response(null, { status: 404, statusText: "Not Found" });
 
 		const query: Record<string, string | string[]> = {};
 		url.searchParams.forEach((value, key) => {
@@ -195,11 +629,31 @@ export const createRouter = <E extends Record<string, Endpoint>, Config extends
 		});
 
 		const handler = route.data as Endpoint;
+		state.endpoint = handler;
+		const tracer = config?.tracer;
+		const attributes = {
+			"http.route": handler.path,
+			"http.request.method": request.method,
+		};
+		const scopes = mountedScopes.get(handler) || [];
+		const cors = getEndpointOptions(handler, "cors");
+		const csrf = getEndpointOptions(handler, "csrf");
+		let corsHeaders: Headers | undefined;
+		const withCORS = (response: Response) =>
+			corsHeaders ? applyCORSHeaders(response, corsHeaders) : response;
 
 		try {
+			if (cors) {
+				corsHeaders = await getCORSHeaders(cors, request);
+			}
+			if (csrf) {
+				await verifyCSRF(csrf, request);
+			}
 			// Determine which allowedMediaTypes to use: endpoint-level overrides router-level
 			const allowedMediaTypes =
-				handler.options.metadata?.allowedMediaTypes || config?.allowedMediaTypes;
+				handler.options.metadata?.allowedMediaTypes ||
+				scopes.find((scope) => scope.allowedMediaTypes)?.allowedMediaTypes ||
+				config?.allowedMediaTypes;
 			const context = {
 				path,
 				method: request.method as "GET",
@@ -208,41 +662,104 @@ export const createRouter = <E extends Record<string, Endpoint>, Config extends
 				request: request,
 				body: handler.options.disableBody
 					? undefined
-					: await getBody(
-							handler.options.cloneRequest ? request.clone() : request,
-							allowedMediaTypes,
+					: await withSpan(tracer, "parse", attributes, () =>
+							getBody(
+								handler.options.cloneRequest ? request.clone() : request,
+								allowedMediaTypes,
+							),
 						),
 				query,
 				_flag: "router" as const,
 				asResponse: true,
-				context: config?.routerContext,
+				// a copy for each request, so middlewares can't leak context between requests
+				context: Object.assign(
+					{},
+					config?.routerContext,
+					...[...scopes].reverse().map((scope) => scope.routerContext),
+				),
+				timeout: config?.timeout,
+				tracer,
+				hooks: {
+					before: matchHooks(beforeHooks, handler, request.method, path),
+					after: matchHooks(afterHooks, handler, request.method, path),
+				},
 			};
-			const middlewareRoutes = findAllRoutes(middlewareRouter, "*", path);
-			if (middlewareRoutes?.length) {
-				for (const { data: middleware, params } of middlewareRoutes) {
-					const res = await (middleware as Endpoint)({
-						...context,
-						params,
-						asResponse: false,
+			const middlewareRoutes = findAllRoutes(middlewareRouter, "*", path) || [];
+			const run = async (index: number): Promise<Response> => {
+				const route = middlewareRoutes[index];
+				if (!route) {
+					return (await handler(context)) as Response;
+				}
+				const middleware = route.data as Endpoint;
+				const middlewareAttributes = {
+					...attributes,
+					"better-call.middleware.index": index,
+				};
+				if (!isAroundMiddleware(route.data)) {
+					const { response: res, headers } = (await withSpan(
+						tracer,
+						"middleware",
+						middlewareAttributes,
+						() =>
+							middleware({
+								...context,
+								params: route.params,
+								asResponse: false,
+								returnHeaders: true,
+							}),
+					)) as {
+						response: unknown;
+						headers: Headers;
+					};
+					if (!(res instanceof Response) && res && typeof res === "object") {
+						context.context = { ...context.context, ...res };
+					}
+					const response = res instanceof Response ? res : await run(index + 1);
+					// the headers set by the middleware, like rate limit headers, are kept
+					applyMiddlewareHeaders(response, headers);
+					return response;
+				}
+				const { response, headers, status } = (await withSpan(
+					tracer,
+					"middleware",
+					middlewareAttributes,
+					() =>
+						middleware({
+							...context,
+							params: route.params,
+							asResponse: false,
+							returnHeaders: true,
+							next: () => run(index + 1),
+						}),
+				)) as {
+					response: unknown;
+					headers: Headers;
+					status?: number;
+				};
+				const res = response instanceof Response ? response : toResponse(response);
+				applyMiddlewareHeaders(res, headers);
+				if (status && status !== res.status) {
+					return new Response(res.body, {
+						status,
+						headers: res.headers,
 					});
-
-					if (res instanceof Response) return res;
 				}
-			}
-
-			const response = (await handler(context)) as Response;
-			return response;
+				return res;
+			};
+			return withCORS(await run(0));
 		} catch (error) {
-			if (config?.onError) {
+			// the error handlers of the mounted routers run first
+			for (const onError of [...scopes.map((scope) => scope.onError), config?.onError]) {
+				if (!onError) continue;
 				try {
-					const errorResponse = await config.onError(error);
+					const errorResponse = await onError(error);
 
 					if (errorResponse instanceof Response) {
-						return toResponse(errorResponse);
+						return withCORS(toResponse(errorResponse));
 					}
 				} catch (error) {
 					if (isAPIError(error)) {
-						return toResponse(error);
+						return withCORS(toResponse(error));
 					}
 
 					throw error;
@@ -254,32 +771,79 @@ export const createRouter = <E extends Record<string, Endpoint>, Config extends
 			}
 
 			if (isAPIError(error)) {
-				return toResponse(error);
+				return withCORS(toResponse(error));
 			}
 
-			console.error(`# SERVER_ERROR: `, error);
-			return new Response(null, {
-				status: 500,
-				statusText: "Internal Server Error",
+			logger?.error(request, error, {
+				requestId: state.requestId,
+				route: handler.path,
+				metadata: handler.options.metadata,
 			});
+			return withCORS(
+				new Response(null, {
+					status: 500,
+					statusText: "Internal Server Error",
+				}),
+			);
 		}
 	};
 
 	return {
 		handler: async (request: Request) => {
+			const start = performance.now();
+			const state: RequestState = { requestId: logger?.getRequestId(request) ?? "" };
+			request = logger?.track(request) ?? request;
+			const log = (response: Response) =>
+				logger?.access(request, response, {
+					requestId: state.requestId,
+					route: state.endpoint?.path,
+					duration: performance.now() - start,
+				}) ?? response;
 			const onReq = await config?.onRequest?.(request);
 			if (onReq instanceof Response) {
-				return onReq;
+				return log(onReq);
 			}
 			const req = isRequest(onReq) ? onReq : request;
-			const res = await processRequest(req);
+			let res = await withSpan(
+				config?.tracer,
+				"request",
+				{ "http.request.method": req.method, "url.path": new URL(req.url).pathname },
+				async (span) => {
+					const res = await processRequest(req, state);
+					if (state.endpoint) {
+						span?.setAttribute("http.route", state.endpoint.path);
+					}
+					span?.setAttribute("http.response.status_code", res.status);
+					if (res.status >= 500) {
+						span?.setStatus({ code: SpanStatusCode.ERROR });
+					}
+					return res;
+				},
+			);
+			if (state.endpoint?.options.metadata?.etag ?? config?.etag) {
+				res = await generateETag(res);
+			}
+			res = await handleConditionalRequest(req, res);
+			if (req.method === "HEAD" && res.body) {
+				await res.body.cancel();
+				res = new Response(null, {
+					status: res.status,
+					statusText: res.statusText,
+					headers: res.headers,
+				});
+			}
+			if (config?.compression) {
+				res = await compressResponse(req, res, config.compression);
+			}
 			const onRes = await config?.onResponse?.(res);
 			if (onRes instanceof Response) {
-				return onRes;
+				return log(onRes);
 			}
-			return res;
+			return log(res);
 		},
-		endpoints,
+		endpoints: endpoints as E &
+			(Config extends { mount: infer Mount } ? MountedEndpoints<Mount> : {}),
+		config,
 	};
 };
 
@@ -0,0 +1,234 @@
+import { describe, expect, it } from "vitest";
+import { createEndpoint } from "./endpoint";
+import { createMiddleware } from "./middleware";
+import { createRouter } from "./router";
+
+describe("single flight", () => {
+	const createGate = () => {
+		let open!: () => void;
+		const promise = new Promise<void>((resolve) => {
+			open = resolve;
+		});
+		return { promise, open };
+	};
+
+	it("should share one execution between concurrent identical requests", async () => {
+		let count = 0;
+		let gate = createGate();
+		const requestId = createMiddleware(async (ctx) => {
+			ctx.setHeader("x-request-id", ctx.getHeader("x-request-id") || "");
+		});
+		const endpoint = createEndpoint(
+			"/posts",
+			{
+				method: "GET",
+				use: [requestId],
+				metadata: { singleFlight: { headers: ["accept-language"] } },
+			},
+			async (ctx) => {
+				const current = ++count;
+				await gate.promise;
+				ctx.setHeader("x-count", String(current));
+				ctx.setCookie("seen", "1");
+				return { count: current };
+			},
+		);
+		const router = createRouter({ endpoint });
+		const get = (query: string, headers: Record<string, string> = {}) =>
+			router.handler(new Request(`http://localhost/posts${query}`, { headers }));
+
+		const responses = [
+			get("?a=1&b=2", { "x-request-id": "1" }),
+			get("?b=2&a=1", { "x-request-id": "2" }),
+			get("?a=1&b=2", { "x-request-id": "3", "accept-language": "fr" }),
+			get("?a=2", { "x-request-id": "4" }),
+		];
+		gate.open();
+		const [first, second, french, other] = await Promise.all(responses);
+		expect(count).toBe(3);
+		expect(await first!.json()).toEqual({ count: 1 });
+		expect(await second!.json()).toEqual({ count: 1 });
+		expect(await french!.json()).not.toEqual({ count: 1 });
+		expect(await other!.json()).not.toEqual({ count: 1 });
+
+		expect(first!.headers.get("x-request-id")).toBe("1");
+		expect(second!.headers.get("x-request-id")).toBe("2");
+		expect(second!.headers.get("x-count")).toBe("1");
+		// cookies aren't shared
+		expect(first!.headers.getSetCookie()).toEqual(["seen=1"]);
+		expect(second!.headers.getSetCookie()).toEqual([]);
+
+		// once the execution ended, a new request runs the handler again
+		gate = createGate();
+		gate.open();
+		expect(await (await get("?a=1&b=2")).json()).toEqual({ count: 4 });
+	});
+
+	it("should run the middlewares and hooks of each caller", async () => {
+		let count = 0;
+		const gate = createGate();
+		const auth = createMiddleware.around(async (ctx, next) => {
+			if (ctx.getHeader("x-api-key") !== "secret") {
+				throw ctx.error("UNAUTHORIZED");
+			}
+			return next();
+		});
+		const endpoint = createEndpoint(
+			"/account",
+			{
+				method: "GET",
+				use: [auth],
+				metadata: { singleFlight: { headers: [] } },
+			},
+			async (ctx) => {
+				count++;
+				await gate.promise;
+				ctx.setCookie("session", "user-a-session");
+				return { account: "a" };
+			},
+		);
+		const hooked: string[] = [];
+		const router = createRouter(
+			{ endpoint },
+			{
+				hooks: {
+					before: [
+						{
+							handler: async (ctx) => {
+								hooked.push(ctx.getHeader("x-api-key") || "anonymous");
+							},
+						},
+					],
+				},
+			},
+		);
+		const get = (headers: Record<string, string>) =>
+			router.handler(new Request("http://localhost/account", { headers }));
+
+		const authenticated = get({ "x-api-key": "secret" });
+		const anonymous = get({});
+		const other = get({ "x-api-key": "secret" });
+		gate.open();
+		const [a, b, c] = await Promise.all([authenticated, anonymous, other]);
+		expect(a!.status).toBe(200);
+		expect(b!.status).toBe(401);
+		expect(b!.headers.getSetCookie()).toEqual([]);
+		expect(c!.status).toBe(200);
+		expect(await c!.json()).toEqual({ account: "a" });
+		expect(c!.headers.getSetCookie()).toEqual([]);
+		expect(hooked).toEqual(["secret", "secret"]);
+		expect(count).toBe(1);
+	});
+
+	it("should only abort the shared handler when every caller is gone", async () => {
+		let count = 0;
+		let gate = createGate();
+		let signal: AbortSignal | undefined;
+		const endpoint = createEndpoint(
+			"/slow",
+			{ method: "GET", metadata: { singleFlight: true } },
+			async (ctx) => {
+				count++;
+				signal = ctx.signal;
+				await gate.promise;
+				return "done";
+			},
+		);
+		const first = new AbortController();
+		const calls = [endpoint({ signal: first.signal }), endpoint()];
+		// both calls are waiting for the handler
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		first.abort();
+		await expect(calls[0]).rejects.toThrowError("This operation was aborted");
+		expect(signal?.aborted).toBe(false);
+		gate.open();
+		expect(await calls[1]).toBe("done");
+		expect(count).toBe(1);
+
+		gate = createGate();
+		const controllers = [new AbortController(), new AbortController()];
+		const aborted = controllers.map((controller) => endpoint({ signal: controller.signal }));
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		for (const controller of controllers) {
+			controller.abort();
+		}
+		const results = await Promise.allSettled(aborted);
+		expect(results.map((result) => result.status)).toEqual(["rejected", "rejected"]);
+		expect(signal?.aborted).toBe(true);
+		// a new call doesn't join the aborted execution
+		const next = endpoint();
+		gate.open();
+		expect(await next).toBe("done");
+		expect(count).toBe(3);
+	});
+
+	it("should clone returned responses for each caller", async () => {
+		let count = 0;
+		const gate = createGate();
+		const endpoint = createEndpoint(
+			"/file",
+			{ method: "GET", metadata: { singleFlight: true } },
+			async () => {
+				count++;
+				await gate.promise;
+				return new Response("content", { headers: { "content-type": "text/plain" } });
+			},
+		);
+		const router = createRouter({ endpoint });
+		const responses = [1, 2, 3].map(() => router.handler(new Request("http://localhost/file")));
+		gate.open();
+		const texts = await Promise.all(responses.map(async (response) => (await response).text()));
+		expect(texts).toEqual(["content", "content", "content"]);
+		expect(count).toBe(1);
+	});
+
+	it("should share errors and work for direct calls", async () => {
+		let count = 0;
+		let gate = createGate();
+		const auth = createMiddleware(async (ctx) => {
+			return { user: ctx.getHeader("x-user") };
+		});
+		const endpoint = createEndpoint(
+			"/profile",
+			{
+				method: "GET",
+				use: [auth],
+				metadata: { singleFlight: { key: (ctx) => ctx.context.user } },
+			},
+			async (ctx) => {
+				count++;
+				await gate.promise;
+				if (ctx.context.user === "banned") {
+					throw ctx.error("FORBIDDEN");
+				}
+				ctx.setHeader("x-user", ctx.context.user || "");
+				return { user: ctx.context.user };
+			},
+		);
+		const call = (user: string) => endpoint({ headers: new Headers({ "x-user": user }) });
+
+		const calls = [call("1"), call("1"), call("2")];
+		gate.open();
+		expect(await Promise.all(calls)).toEqual([{ user: "1" }, { user: "1" }, { user: "2" }]);
+		expect(count).toBe(2);
+
+		gate = createGate();
+		const responses = [1, 2].map(() =>
+			endpoint({ headers: new Headers({ "x-user": "1" }), asResponse: true }),
+		);
+		gate.open();
+		const [first, second] = await Promise.all(responses);
+		expect(first).not.toBe(second);
+		expect(await first!.json()).toEqual({ user: "1" });
+		expect(await second!.json()).toEqual({ user: "1" });
+		expect(second!.headers.get("x-user")).toBe("1");
+		expect(count).toBe(3);
+
+		gate = createGate();
+		const failures = [call("banned"), call("banned")];
+		gate.open();
+		const results = await Promise.allSettled(failures);
+		expect(results.map((result) => result.status)).toEqual(["rejected", "rejected"]);
+		expect(count).toBe(4);
+	});
+});
@@ -0,0 +1,150 @@
+import type { EndpointContext, EndpointOptions } from "./endpoint";
+import type { Status } from "./error";
+import { normalizeQuery, raceAbort } from "./utils";
+
+export interface SingleFlightOptions {
+	/**
+	 * Request headers that are part of the key, for responses that depend
+	 * on them. The defaults keep requests of different callers apart.
+	 *
+	 * @default ["authorization", "cookie"]
+	 */
+	headers?: string[];
+	/**
+	 * An extra part of the key derived from the context, for example the id
+	 * of the user
+	 */
+	key?: (
+		ctx: EndpointContext<string, EndpointOptions, Record<string, any>>,
+	) => string | undefined | null | Promise<string | undefined | null>;
+}
+
+export type FlightResult = {
+	response: unknown;
+	/**
+	 * The headers set during the shared execution, without `set-cookie`
+	 */
+	headers: Headers;
+	status?: Status;
+};
+
+/**
+ * Get the key of a request, identical concurrent requests share the same key
+ */
+export async function getSingleFlightKey(
+	options: SingleFlightOptions,
+	ctx: EndpointContext<string, EndpointOptions, Record<string, any>>,
+) {
+	const params: unknown = ctx.params;
+	return [
+		ctx.path,
+		typeof params === "object" ? normalizeQuery(params as Record<string, any>) : "",
+		normalizeQuery(ctx.query),
+		...(options.headers || ["authorization", "cookie"])
+			.map((header) => header.toLowerCase())
+			.sort()
+			.map((header) => `${header}=${ctx.getHeader(header) ?? ""}`),
+		(await options.key?.(ctx)) ?? "",
+	].join(":");
+}
+
+type Flight = {
+	waiters: { resolve: (result: FlightResult) => void; reject: (error: unknown) => void }[];
+	/**
+	 * Aborted once every caller is gone
+	 */
+	controller: AbortController;
+	callers: number;
+};
+
+/**
+ * Create a group of executions where concurrent calls with the same key
+ * share a single execution
+ *
+ * The first call runs the execution, the others wait for its result. Each
+ * of them gets its own copy: a returned `Response` is cloned for every call.
+ * A call stops waiting when its own signal is aborted, the execution is only
+ * aborted when all of its calls are.
+ */
+export function createSingleFlight() {
+	const flights = new Map<string, Flight>();
+
+	const wait = async <T>(
+		key: string,
+		flight: Flight,
+		signal: AbortSignal,
+		result: Promise<T>,
+	) => {
+		flight.callers++;
+		const leave = () => {
+			if (--flight.callers > 0) return;
+			// later calls start a new execution instead of joining an aborted one
+			if (flights.get(key) === flight) flights.delete(key);
+			flight.controller.abort(signal.reason);
+		};
+		if (signal.aborted) leave();
+		else signal.addEventListener("abort", leave, { once: true });
+		try {
+			return await raceAbort(result, signal);
+		} finally {
+			signal.removeEventListener("abort", leave);
+		}
+	};
+
+	/**
+	 * @param responseHeaders - The response headers of the call, only the
+	 * headers set during the execution are shared, except `set-cookie`
+	 * @param signal - The signal of the call
+	 */
+	return async (
+		key: string,
+		responseHeaders: Headers,
+		signal: AbortSignal,
+		execute: (signal: AbortSignal) => Promise<Omit<FlightResult, "headers">>,
+	): Promise<FlightResult & { shared: boolean }> => {
+		const existing = flights.get(key);
+		if (existing) {
+			const waiting = new Promise<FlightResult>((resolve, reject) => {
+				existing.waiters.push({ resolve, reject });
+			});
+			return { ...(await wait(key, existing, signal, waiting)), shared: true };
+		}
+		const flight: Flight = { waiters: [], controller: new AbortController(), callers: 0 };
+		flights.set(key, flight);
+		const before = new Headers(responseHeaders);
+		const run = async () => {
+			try {
+				const result = {
+					...(await execute(flight.controller.signal)),
+					headers: new Headers(),
+				};
+				responseHeaders.forEach((value, name) => {
+					// cookies belong to the caller that ran the execution
+					if (name !== "set-cookie" && before.get(name) !== value) {
+						result.headers.set(name, value);
+					}
+				});
+				// the clones are made before the first call can read the body
+				for (const waiter of flight.waiters) {
+					waiter.resolve({
+						response:
+							result.response instanceof Response
+								? result.response.clone()
+								: result.response,
+						headers: new Headers(result.headers),
+						status: result.status,
+					});
+				}
+				return result;
+			} catch (error) {
+				for (const waiter of flight.waiters) {
+					waiter.reject(error);
+				}
+				throw error;
+			} finally {
+				if (flights.get(key) === flight) flights.delete(key);
+			}
+		};
+		return { ...(await wait(key, flight, signal, run())), shared: false };
+	};
+}
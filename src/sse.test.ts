@@ -0,0 +1,196 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { z } from "zod";
+import { createClient } from "./client";
+import { createEndpoint } from "./endpoint";
+import { createRouter } from "./router";
+import { formatEvent, parseEventStream } from "./sse";
+
+describe("formatEvent", () => {
+	it("should format events", () => {
+		expect(
+			formatEvent({ event: "progress", data: { percent: 50 }, id: "1", retry: 1000 }),
+		).toBe('event: progress\nid: 1\nretry: 1000\ndata: {"percent":50}\n\n');
+		expect(formatEvent({ data: "hello" })).toBe('data: "hello"\n\n');
+	});
+
+	it("should remove line breaks from the event name and id", () => {
+		expect(formatEvent({ event: "a\nretry: 1", data: 1, id: "1\r\ndata: injected" })).toBe(
+			"event: aretry: 1\nid: 1data: injected\ndata: 1\n\n",
+		);
+	});
+});
+
+describe("sse", () => {
+	const endpoint = createEndpoint(
+		"/progress",
+		{
+			method: "GET",
+			events: {
+				progress: z.object({
+					percent: z.number(),
+				}),
+				done: z.object({
+					url: z.string(),
+				}),
+			},
+		},
+		async (ctx) => {
+			return ctx.sse(
+				async (stream) => {
+					const start = Number(stream.lastEventId ?? 0);
+					for (let i = start + 1; i <= 2; i++) {
+						await stream.send({
+							event: "progress",
+							data: { percent: i * 50 },
+							id: String(i),
+						});
+					}
+					await stream.send({ event: "done", data: { url: "/file" } });
+				},
+				{ retry: 1000 },
+			);
+		},
+	);
+	const router = createRouter({ endpoint });
+
+	it("should stream events as text/event-stream", async () => {
+		const response = await router.handler(new Request("http://localhost/progress"));
+		expect(response.headers.get("content-type")).toBe("text/event-stream");
+		expect(await response.text()).toBe(
+			"retry: 1000\n\n" +
+				'event: progress\nid: 1\ndata: {"percent":50}\n\n' +
+				'event: progress\nid: 2\ndata: {"percent":100}\n\n' +
+				'event: done\ndata: {"url":"/file"}\n\n',
+		);
+	});
+
+	it("should resume from the Last-Event-ID header", async () => {
+		const response = await router.handler(
+			new Request("http://localhost/progress", {
+				headers: {
+					"last-event-id": "1",
+				},
+			}),
+		);
+		const events = [];
+		for await (const event of parseEventStream(response.body!)) {
+			events.push(event);
+		}
+		expect(events).toEqual([
+			{ event: "progress", data: { percent: 100 }, id: "2" },
+			{ event: "done", data: { url: "/file" }, id: "2" },
+		]);
+	});
+
+	it("should validate events against the events schema", async () => {
+		const endpoint = createEndpoint(
+			"/invalid",
+			{
+				method: "GET",
+				events: {
+					progress: z.object({
+						percent: z.number(),
+					}),
+				},
+			},
+			async (ctx) => {
+				return ctx.sse(async (stream) => {
+					await stream.send({
+						event: "progress",
+						//@ts-expect-error
+						data: { percent: "50" },
+					});
+				});
+			},
+		);
+		const response = await endpoint();
+		await expect(response.text()).rejects.toThrowError("[event.progress.percent]");
+	});
+
+	it("should send heartbeats and close the stream on abort", async () => {
+		const controller = new AbortController();
+		let streamSignal: AbortSignal | undefined;
+		const endpoint = createEndpoint(
+			"/heartbeat",
+			{
+				method: "GET",
+			},
+			async (ctx) => {
+				return ctx.sse(
+					async (stream) => {
+						streamSignal = stream.signal;
+						await new Promise((resolve) =>
+							stream.signal.addEventListener("abort", resolve),
+						);
+					},
+					{ heartbeat: 5 },
+				);
+			},
+		);
+		const response = await endpoint({ signal: controller.signal });
+		setTimeout(() => controller.abort(), 20);
+		const text = await response.text();
+		expect(text).toContain(": heartbeat\n\n");
+		expect(streamSignal?.aborted).toBe(true);
+	});
+
+	it("should not close the stream when the router timeout is reached", async () => {
+		const endpoint = createEndpoint("/ticks", { method: "GET" }, async (ctx) => {
+			return ctx.sse(async (stream) => {
+				for (let i = 0; i < 3; i++) {
+					await stream.send({ data: i });
+					await new Promise((resolve) => setTimeout(resolve, 20));
+				}
+			});
+		});
+		const router = createRouter({ endpoint }, { timeout: 30 });
+		const response = await router.handler(new Request("http://localhost/ticks"));
+		expect(await response.text()).toBe("data: 0\n\ndata: 1\n\ndata: 2\n\n");
+	});
+
+	it("should abort the stream signal when the client cancels the stream", async () => {
+		let streamSignal: AbortSignal | undefined;
+		const endpoint = createEndpoint(
+			"/cancel",
+			{
+				method: "GET",
+			},
+			async (ctx) => {
+				return ctx.sse(async (stream) => {
+					streamSignal = stream.signal;
+					await stream.send({ data: "hello" });
+					await new Promise((resolve) =>
+						stream.signal.addEventListener("abort", resolve),
+					);
+				});
+			},
+		);
+		const response = await endpoint();
+		for await (const event of parseEventStream(response.body!)) {
+			expect(event).toEqual({ event: "message", data: "hello" });
+			break;
+		}
+		expect(streamSignal?.aborted).toBe(true);
+	});
+
+	it("should subscribe to events from the client", async () => {
+		const client = createClient<typeof router>({
+			baseURL: "http://localhost",
+			customFetchImpl: async (url, init) => {
+				return router.handler(new Request(url, init));
+			},
+		});
+		const events = [];
+		for await (const event of client.subscribe("/progress", { lastEventId: "1" })) {
+			expectTypeOf(event).toEqualTypeOf<
+				| { event: "progress"; data: { percent: number }; id?: string; retry?: number }
+				| { event: "done"; data: { url: string }; id?: string; retry?: number }
+			>();
+			events.push(event);
+		}
+		expect(events).toEqual([
+			{ event: "progress", data: { percent: 100 }, id: "2" },
+			{ event: "done", data: { url: "/file" }, id: "2" },
+		]);
+	});
+});
@@ -0,0 +1,241 @@
+export type SSEMessage<Event extends string = string, Data = any> = {
+	/**
+	 * Event name
+	 *
+	 * If omitted, the client will receive the event as `message`
+	 */
+	event?: Event;
+	/**
+	 * Event data, serialized as JSON
+	 */
+	data: Data;
+	/**
+	 * Event id
+	 *
+	 * Sent back by the client as the `Last-Event-ID` header when reconnecting
+	 */
+	id?: string;
+	/**
+	 * Reconnection time in milliseconds
+	 */
+	retry?: number;
+};
+
+export type SSEEvent<Event extends string = string, Data = any> = {
+	event: Event;
+	data: Data;
+	id?: string;
+	retry?: number;
+};
+
+export interface SSEOptions {
+	/**
+	 * Reconnection time in milliseconds sent to the client when the stream opens
+	 */
+	retry?: number;
+	/**
+	 * Interval in milliseconds to send a heartbeat comment to keep the
+	 * connection alive
+	 */
+	heartbeat?: number;
+}
+
+export interface SSEStream<Message extends SSEMessage = SSEMessage> {
+	/**
+	 * Send an event to the client
+	 *
+	 * If the endpoint has an `events` schema, the data will be validated
+	 * against the schema of the event
+	 */
+	send: (message: Message) => Promise<void>;
+	/**
+	 * Send a comment to the client. Comments are ignored by the client.
+	 */
+	comment: (text: string) => void;
+	/**
+	 * Close the stream
+	 */
+	close: () => void;
+	/**
+	 * Aborted when the client disconnects or cancels the stream. The
+	 * timeouts of the endpoint and the router don't apply to the stream.
+	 */
+	signal: AbortSignal;
+	/**
+	 * The `Last-Event-ID` header sent by the client when reconnecting
+	 */
+	lastEventId: string | null;
+}
+
+/**
+ * Serialize an event using the `text/event-stream` format
+ *
+ * Line breaks are removed from the event name and the id, so they can't add
+ * fields to the event.
+ */
+export function formatEvent(message: SSEMessage) {
+	const field = (value: string) => value.replace(/\r|\n/g, "");
+	let event = "";
+	if (message.event) {
+		event += `event: ${field(message.event)}\n`;
+	}
+	if (message.id !== undefined) {
+		event += `id: ${field(message.id)}\n`;
+	}
+	if (message.retry !== undefined) {
+		event += `retry: ${message.retry}\n`;
+	}
+	for (const line of (JSON.stringify(message.data) ?? "").split(/\r\n|\r|\n/)) {
+		event += `data: ${line}\n`;
+	}
+	return `${event}\n`;
+}
+
+export function createEventStream<Message extends SSEMessage>(
+	handler: (stream: SSEStream<Message>) => void | Promise<void>,
+	options: SSEOptions & {
+		/**
+		 * Validates the data of an event and returns the parsed data
+		 */
+		validate?: (message: Message) => Promise<any>;
+		signal?: AbortSignal;
+		lastEventId?: string | null;
+	} = {},
+) {
+	const encoder = new TextEncoder();
+	const controller = new AbortController();
+	const signal = options.signal
+		? AbortSignal.any([options.signal, controller.signal])
+		: controller.signal;
+	let streamController: ReadableStreamDefaultController<Uint8Array>;
+	let heartbeat: ReturnType<typeof setInterval> | undefined;
+	let closed = false;
+
+	const write = (chunk: string) => {
+		if (closed) return;
+		streamController.enqueue(encoder.encode(chunk));
+	};
+	const close = () => {
+		if (closed) return;
+		closed = true;
+		clearInterval(heartbeat);
+		signal.removeEventListener("abort", close);
+		try {
+			streamController.close();
+		} catch {
+			// the stream was already cancelled by the client
+		}
+	};
+
+	const stream: SSEStream<Message> = {
+		send: async (message) => {
+			if (closed) return;
+			if (options.validate) {
+				message = { ...message, data: await options.validate(message) };
+			}
+			write(formatEvent(message));
+		},
+		comment: (text) => {
+			write(`: ${text.replace(/\r\n|\r|\n/g, " ")}\n\n`);
+		},
+		close,
+		signal,
+		lastEventId: options.lastEventId ?? null,
+	};
+
+	const body = new ReadableStream<Uint8Array>({
+		start(c) {
+			streamController = c;
+			if (signal.aborted) {
+				close();
+				return;
+			}
+			signal.addEventListener("abort", close, { once: true });
+			if (options.retry !== undefined) {
+				write(`retry: ${options.retry}\n\n`);
+			}
+			if (options.heartbeat) {
+				heartbeat = setInterval(() => stream.comment("heartbeat"), options.heartbeat);
+			}
+			Promise.resolve()
+				.then(() => handler(stream))
+				.then(close, (e) => {
+					if (closed) return;
+					closed = true;
+					clearInterval(heartbeat);
+					c.error(e);
+				});
+		},
+		cancel() {
+			controller.abort();
+		},
+	});
+
+	return new Response(body, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache",
+		},
+	});
+}
+
+/**
+ * Parse a `text/event-stream` body into events. The data of each event is
+ * parsed as JSON when possible.
+ */
+export async function* parseEventStream(
+	body: ReadableStream<Uint8Array>,
+): AsyncGenerator<SSEEvent> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+	let data: string[] = [];
+	let event: string | undefined;
+	let id: string | undefined;
+	let retry: number | undefined;
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split(/\r\n|\r|\n/);
+			buffer = lines.pop() ?? "";
+			for (const line of lines) {
+				if (line === "") {
+					if (data.length) {
+						const raw = data.join("\n");
+						let parsed: any = raw;
+						try {
+							parsed = JSON.parse(raw);
+						} catch {}
+						yield {
+							event: event || "message",
+							data: parsed,
+							...(id !== undefined ? { id } : {}),
+							...(retry !== undefined ? { retry } : {}),
+						};
+					}
+					data = [];
+					event = undefined;
+					retry = undefined;
+					continue;
+				}
+				if (line.startsWith(":")) continue;
+				const index = line.indexOf(":");
+				const field = index === -1 ? line : line.slice(0, index);
+				const fieldValue = index === -1 ? "" : line.slice(index + 1).replace(/^ /, "");
+				if (field === "data") {
+					data.push(fieldValue);
+				} else if (field === "event") {
+					event = fieldValue;
+				} else if (field === "id") {
+					id = fieldValue;
+				} else if (field === "retry" && /^\d+$/.test(fieldValue)) {
+					retry = Number(fieldValue);
+				}
+			}
+		}
+	} finally {
+		await reader.cancel().catch(() => {});
+	}
+}
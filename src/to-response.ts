@@ -65,7 +65,7 @@ export type JSONResponse = {
 	_flag: "json";
 };
 
-function isJSONResponse(value: any): value is JSONResponse {
+export function isJSONResponse(value: any): value is JSONResponse {
 	if (!value || typeof value !== "object") {
 		return false;
 	}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createEndpoint } from "./endpoint";
+import { createMiddleware } from "./middleware";
+import { createRouter } from "./router";
+import { createMemoryTracer, SpanStatusCode } from "./tracing";
+
+describe("tracing", () => {
+	const auth = createMiddleware(async () => {
+		return { user: "john" };
+	});
+	const timing = createMiddleware.around(async (_, next) => {
+		return next();
+	});
+	const endpoint = createEndpoint(
+		"/item/:id",
+		{
+			method: "POST",
+			body: z.object({ name: z.string() }),
+			use: [auth, timing],
+		},
+		async (ctx) => {
+			if (ctx.body.name === "fail") {
+				throw new Error("boom");
+			}
+			if (ctx.body.name === "forbidden") {
+				throw ctx.error("FORBIDDEN");
+			}
+			return { id: ctx.params.id, name: ctx.body.name };
+		},
+	);
+	const tracer = createMemoryTracer();
+	const router = createRouter({ endpoint }, { tracer });
+
+	const request = (name: unknown) =>
+		new Request("http://localhost/item/1", {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({ name }),
+		});
+
+	it("should emit start and end events for each phase", async () => {
+		tracer.clear();
+		const response = await router.handler(request("item"));
+		expect(response.status).toBe(200);
+		expect(tracer.events.map((event) => `${event.type}:${event.name}`)).toEqual([
+			"start:request",
+			"start:parse",
+			"end:parse",
+			"start:validation",
+			"end:validation",
+			"start:middleware",
+			// the validation of the middleware itself
+			"start:validation",
+			"end:validation",
+			"end:middleware",
+			"start:middleware",
+			"start:validation",
+			"end:validation",
+			"start:handler",
+			"end:handler",
+			"end:middleware",
+			"start:serialization",
+			"end:serialization",
+			"end:request",
+		]);
+		const handler = tracer.events.find(
+			(event) => event.type === "end" && event.name === "handler",
+		);
+		expect(handler?.attributes).toMatchObject({
+			"http.route": "/item/:id",
+			"http.request.method": "POST",
+		});
+		expect(handler?.duration).toBeGreaterThanOrEqual(0);
+		const end = tracer.events.at(-1);
+		expect(end?.attributes).toMatchObject({
+			"http.route": "/item/:id",
+			"http.request.method": "POST",
+			"http.response.status_code": 200,
+		});
+		expect(end?.status).toBeUndefined();
+	});
+
+	it("should record errors on the spans", async () => {
+		tracer.clear();
+		const response = await router.handler(request("fail"));
+		expect(response.status).toBe(500);
+		const handler = tracer.events.find(
+			(event) => event.type === "end" && event.name === "handler",
+		);
+		expect(handler?.error).toBeInstanceOf(Error);
+		expect(handler?.status).toEqual({ code: SpanStatusCode.ERROR, message: "boom" });
+		expect(handler?.attributes["error.type"]).toBe("Error");
+		const end = tracer.events.at(-1);
+		expect(end?.attributes["http.response.status_code"]).toBe(500);
+		expect(end?.status?.code).toBe(SpanStatusCode.ERROR);
+	});
+
+	it("should not mark client errors as span errors", async () => {
+		tracer.clear();
+		const response = await router.handler(request("forbidden"));
+		expect(response.status).toBe(403);
+		const handler = tracer.events.find(
+			(event) => event.type === "end" && event.name === "handler",
+		);
+		expect(handler?.attributes["error.type"]).toBe("403");
+		expect(handler?.status).toBeUndefined();
+	});
+
+	it("should record validation errors", async () => {
+		tracer.clear();
+		const response = await router.handler(request(1));
+		expect(response.status).toBe(400);
+		const validation = tracer.events.find(
+			(event) => event.type === "end" && event.name === "validation",
+		);
+		expect(validation).toBeDefined();
+		expect(tracer.events.some((event) => event.name === "handler")).toBe(false);
+	});
+
+	it("should trace direct calls", async () => {
+		const tracer = createMemoryTracer();
+		await endpoint({ body: { name: "item" }, params: { id: "1" }, tracer });
+		expect(tracer.events.map((event) => event.name)).toContain("handler");
+		expect(tracer.events.some((event) => event.name === "request")).toBe(false);
+	});
+});
@@ -0,0 +1,166 @@
+import { isAPIError } from "./utils";
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+export const SpanStatusCode = {
+	UNSET: 0,
+	OK: 1,
+	ERROR: 2,
+} as const;
+
+/**
+ * A span of a phase of a request. Compatible with OpenTelemetry spans.
+ */
+export interface Span {
+	setAttribute(key: string, value: string | number | boolean): unknown;
+	setStatus(status: { code: number; message?: string }): unknown;
+	recordException(exception: Error | string): unknown;
+	end(): unknown;
+}
+
+/**
+ * Creates the spans of the phases of a request. Compatible with
+ * OpenTelemetry tracers.
+ *
+ * @example
+ * ```ts
+ * import { trace } from "@opentelemetry/api";
+ *
+ * const router = createRouter(endpoints, {
+ * 		tracer: trace.getTracer("api"),
+ * 	})
+ * ```
+ */
+export interface Tracer {
+	startActiveSpan<F extends (span: Span) => unknown>(
+		name: string,
+		options: { attributes?: SpanAttributes },
+		fn: F,
+	): ReturnType<F>;
+}
+
+/**
+ * The phases of a request that are traced
+ *
+ * - `request` - the whole request handled by the router
+ * - `parse` - parsing the request body
+ * - `validation` - validating the body, query, params and headers
+ * - `middleware` - a middleware, including the phases it wraps for around middlewares
+ * - `handler` - the endpoint handler
+ * - `serialization` - converting the result of the endpoint to a `Response`
+ */
+export type TracePhase =
+	| "request"
+	| "parse"
+	| "validation"
+	| "middleware"
+	| "handler"
+	| "serialization";
+
+/**
+ * Run a function in a span of the tracer, recording the error it throws
+ */
+export async function withSpan<T>(
+	tracer: Tracer | undefined,
+	phase: TracePhase,
+	attributes: SpanAttributes,
+	fn: (span?: Span) => T | Promise<T>,
+): Promise<T> {
+	if (!tracer) {
+		return fn();
+	}
+	return tracer.startActiveSpan(phase, { attributes }, async (span) => {
+		try {
+			return await fn(span);
+		} catch (error) {
+			span.recordException(error instanceof Error ? error : String(error));
+			if (isAPIError(error)) {
+				span.setAttribute("error.type", String(error.statusCode));
+				if (error.statusCode >= 500) {
+					span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+				}
+			} else {
+				span.setAttribute("error.type", error instanceof Error ? error.name : "Error");
+				span.setStatus({
+					code: SpanStatusCode.ERROR,
+					message: error instanceof Error ? error.message : String(error),
+				});
+			}
+			throw error;
+		} finally {
+			span.end();
+		}
+	});
+}
+
+export interface TraceEvent {
+	type: "start" | "end";
+	name: string;
+	attributes: SpanAttributes;
+	/**
+	 * The status of the span, on `end` events
+	 */
+	status?: { code: number; message?: string };
+	/**
+	 * The exception recorded on the span, on `end` events
+	 */
+	error?: Error | string;
+	/**
+	 * Duration of the span in milliseconds, on `end` events
+	 */
+	duration?: number;
+}
+
+/**
+ * Create a tracer that records the start and end events of the spans in
+ * memory, useful for tests
+ *
+ * @example
+ * ```ts
+ * const tracer = createMemoryTracer();
+ * const router = createRouter(endpoints, { tracer });
+ * await router.handler(request);
+ * tracer.events // [{ type: "start", name: "request", ... }, ...]
+ * ```
+ */
+export function createMemoryTracer() {
+	const events: TraceEvent[] = [];
+	return {
+		events,
+		clear() {
+			events.length = 0;
+		},
+		startActiveSpan<F extends (span: Span) => unknown>(
+			name: string,
+			options: { attributes?: SpanAttributes },
+			fn: F,
+		): ReturnType<F> {
+			const attributes = { ...options.attributes };
+			const start = performance.now();
+			let status: TraceEvent["status"];
+			let error: TraceEvent["error"];
+			events.push({ type: "start", name, attributes: { ...attributes } });
+			return fn({
+				setAttribute(key, value) {
+					attributes[key] = value;
+				},
+				setStatus(value) {
+					status = value;
+				},
+				recordException(exception) {
+					error = exception;
+				},
+				end() {
+					events.push({
+						type: "end",
+						name,
+						attributes: { ...attributes },
+						status,
+						error,
+						duration: performance.now() - start,
+					});
+				},
+			}) as ReturnType<F>;
+		},
+	} satisfies Tracer & Record<string, unknown>;
+}
@@ -1,4 +1,5 @@
 import { APIError } from "./error";
+import type { AroundMiddleware } from "./middleware";
 
 const jsonContentTypeRegex = /^application\/([a-z0-9.+-]*\+)?json/i;
 
@@ -126,3 +127,79 @@ export async function tryCatch<T, E = Error>(promise: Promise<T>): Promise<Resul
 export function isRequest(obj: unknown): obj is Request {
 	return obj instanceof Request || Object.prototype.toString.call(obj) === "[object Request]";
 }
+
+/**
+ * Race a promise against a signal, rejecting with the abort reason once the
+ * signal is aborted. The abort listener is removed when the race settles.
+ */
+export async function raceAbort<T>(promise: T | Promise<T>, signal: AbortSignal): Promise<T> {
+	let abort = () => {};
+	const aborted = new Promise<never>((_, reject) => {
+		abort = () => reject(signal.reason);
+		if (signal.aborted) abort();
+		else signal.addEventListener("abort", abort, { once: true });
+	});
+	try {
+		return await Promise.race([promise, aborted]);
+	} finally {
+		signal.removeEventListener("abort", abort);
+	}
+}
+
+/**
+ * Encode bytes as base64, to store binary bodies as strings
+ */
+export function encodeBase64(bytes: Uint8Array) {
+	let binary = "";
+	// String.fromCharCode takes its arguments on the stack, so large bodies are encoded in chunks
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
+
+export function decodeBase64(value: string) {
+	const binary = atob(value);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
+
+/**
+ * Check if a middleware was created with `createMiddleware.around`
+ */
+export function isAroundMiddleware(middleware: unknown): middleware is AroundMiddleware {
+	return typeof middleware === "function" && (middleware as any).around === true;
+}
+
+/**
+ * Add a header name to the `Vary` header, keeping the names already listed
+ */
+export function appendVary(headers: Headers, name: string) {
+	const vary = headers.get("vary");
+	if (!vary) {
+		headers.set("Vary", name);
+		return;
+	}
+	const names = vary.split(",").map((value) => value.trim().toLowerCase());
+	if (names.includes("*") || names.includes(name.toLowerCase())) return;
+	headers.set("Vary", `${vary}, ${name}`);
+}
+
+/**
+ * Serialize query params sorted by name, so the same query in another order
+ * gives the same string
+ */
+export function normalizeQuery(query: Record<string, any> | undefined) {
+	const params = new URLSearchParams();
+	for (const key of Object.keys(query || {}).sort()) {
+		const value = query![key];
+		if (value === undefined) continue;
+		for (const item of Array.isArray(value) ? value : [value]) {
+			params.append(key, typeof item === "object" ? JSON.stringify(item) : String(item));
+		}
+	}
+	return params.toString();
+}
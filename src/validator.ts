@@ -1,12 +1,16 @@
 import type { EndpointOptions } from "./endpoint";
 import type { InputContext } from "./context";
 import type { StandardSchemaV1 } from "./standard-schema";
+import { getCookieKey, verifySignedCookieValue } from "./cookies";
+import { isRequest } from "./utils";
 
 type ValidationResponse =
 	| {
 			data: {
 				body: any;
 				query: any;
+				params: any;
+				headers: any;
 			};
 			error: null;
 	  }
@@ -19,7 +23,7 @@ type ValidationResponse =
 	  };
 
 /**
- * Runs validation on body and query
+ * Runs validation on body, query, params and headers
  * @returns error and data object
  */
 export async function runValidation(
@@ -29,9 +33,13 @@ export async function runValidation(
 	let request = {
 		body: context.body,
 		query: context.query,
+		params: context.params,
+		headers: context.headers,
 	} as {
 		body: any;
 		query: any;
+		params: any;
+		headers: any;
 	};
 	if (options.body) {
 		const result = await options.body["~standard"].validate(context.body);
@@ -54,6 +62,32 @@ export async function runValidation(
 		}
 		request.query = result.value;
 	}
+
+	if (options.params) {
+		const result = await options.params["~standard"].validate(context.params);
+		if (result.issues) {
+			return {
+				data: null,
+				error: fromError(result.issues, "params"),
+			};
+		}
+		request.params = result.value;
+	}
+
+	if (options.headers) {
+		const headers =
+			context.headers ?? (isRequest(context.request) ? context.request.headers : {});
+		const result = await options.headers["~standard"].validate(
+			Object.fromEntries(new Headers(headers).entries()),
+		);
+		if (result.issues) {
+			return {
+				data: null,
+				error: fromError(result.issues, "headers"),
+			};
+		}
+		request.headers = result.value;
+	}
 	if (options.requireHeaders && !context.headers) {
 		return {
 			data: null,
@@ -72,6 +106,149 @@ export async function runValidation(
 	};
 }
 
+/**
+ * Runs validation on the handler response against the schema matching the
+ * response status
+ * @returns error and data object
+ */
+export async function runResponseValidation(
+	options: EndpointOptions,
+	response: any,
+	status?: number,
+): Promise<
+	| { data: any; error: null }
+	| { data: null; error: { message: string; issues: readonly StandardSchemaV1.Issue[] } }
+> {
+	const schema = options.responses?.[status ?? 200] ?? options.response;
+	if (!schema) {
+		return {
+			data: response,
+			error: null,
+		};
+	}
+	const result = await schema["~standard"].validate(response);
+	if (result.issues) {
+		return {
+			data: null,
+			error: fromError(result.issues, "response"),
+		};
+	}
+	return {
+		data: result.value,
+		error: null,
+	};
+}
+
+/**
+ * Runs validation on the cookies declared in the endpoint options
+ * @returns error and data object
+ */
+export async function runCookieValidation(
+	options: EndpointOptions,
+	cookies?: Map<string, string>,
+): Promise<
+	| { data: Record<string, any>; error: null }
+	| { data: null; error: { message: string; issues: readonly StandardSchemaV1.Issue[] } }
+> {
+	const data: Record<string, any> = {};
+	const issues: StandardSchemaV1.Issue[] = [];
+	for (const [name, definition] of Object.entries(options.cookies || {})) {
+		const key = getCookieKey(name, definition.prefix);
+		let value: string | undefined = key ? cookies?.get(key) : undefined;
+		if (value && definition.signed) {
+			const unsigned = await verifySignedCookieValue(value, definition.secret);
+			if (!unsigned) {
+				issues.push({ message: "Invalid cookie signature", path: [name] });
+				continue;
+			}
+			value = unsigned;
+		}
+		if (!definition.schema) {
+			data[name] = value;
+			continue;
+		}
+		const result = await definition.schema["~standard"].validate(value);
+		if (result.issues) {
+			issues.push(
+				...result.issues.map((issue) => ({
+					...issue,
+					path: [name, ...(issue.path || [])],
+				})),
+			);
+			continue;
+		}
+		data[name] = result.value;
+	}
+	if (issues.length) {
+		return {
+			data: null,
+			error: fromError(issues, "cookies"),
+		};
+	}
+	return {
+		data,
+		error: null,
+	};
+}
+
+/**
+ * Runs validation on the data of a server-sent event against the schema of the event
+ * @returns error and data object
+ */
+export async function runEventValidation(
+	events: Record<string, StandardSchemaV1>,
+	message: { event?: string; data: any },
+): Promise<
+	| { data: any; error: null }
+	| { data: null; error: { message: string; issues: readonly StandardSchemaV1.Issue[] } }
+> {
+	const schema = events[message.event || "message"];
+	if (!schema) {
+		return {
+			data: null,
+			error: {
+				message: `[event] Unknown event "${message.event || "message"}"`,
+				issues: [],
+			},
+		};
+	}
+	const result = await schema["~standard"].validate(message.data);
+	if (result.issues) {
+		return {
+			data: null,
+			error: fromError(result.issues, `event.${message.event || "message"}`),
+		};
+	}
+	return {
+		data: result.value,
+		error: null,
+	};
+}
+
+/**
+ * Runs validation on a WebSocket message
+ * @returns error and data object
+ */
+export async function runMessageValidation(
+	schema: StandardSchemaV1,
+	message: unknown,
+): Promise<
+	| { data: any; error: null }
+	| { data: null; error: { message: string; issues: readonly StandardSchemaV1.Issue[] } }
+> {
+	const result = await schema["~standard"].validate(message);
+	if (result.issues) {
+		return {
+			data: null,
+			error: fromError(result.issues, "message"),
+		};
+	}
+	return {
+		data: result.value,
+		error: null,
+	};
+}
+
 function fromError(error: readonly StandardSchemaV1.Issue[], validating: string) {
 	const message = error
 		.map((e) => {
@@ -0,0 +1,147 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { z } from "zod";
+import { createMiddleware } from "./middleware";
+import { createRouter } from "./router";
+import { createWebSocketEndpoint, getWebSocketSession, type WebSocketPeer } from "./websocket";
+
+function createPeer() {
+	const peer = {
+		sent: [] as any[],
+		closed: undefined as { code?: number; reason?: string } | undefined,
+		send(data: string | Uint8Array) {
+			peer.sent.push(JSON.parse(data as string));
+		},
+		close(code?: number, reason?: string) {
+			peer.closed = { code, reason };
+		},
+	} satisfies WebSocketPeer & Record<string, any>;
+	return peer;
+}
+
+const upgradeHeaders = {
+	connection: "Upgrade",
+	upgrade: "websocket",
+};
+
+describe("websocket", () => {
+	const auth = createMiddleware(async (ctx) => {
+		return {
+			user: ctx.getHeader("x-user") ?? "anonymous",
+		};
+	});
+	const chat = createWebSocketEndpoint(
+		"/chat/:room",
+		{
+			use: [auth],
+			incoming: z.object({
+				text: z.string(),
+			}),
+			outgoing: z.object({
+				text: z.string(),
+				room: z.string(),
+				user: z.string(),
+			}),
+		},
+		{
+			open: async (ws, ctx) => {
+				await ws.send({ text: "welcome", room: ctx.params.room, user: ctx.context.user });
+			},
+			message: async (ws, message, ctx) => {
+				expectTypeOf(message).toEqualTypeOf<{ text: string }>();
+				if (message.text === "invalid") {
+					//@ts-expect-error
+					await ws.send({ text: message.text });
+					return;
+				}
+				await ws.send({
+					text: message.text,
+					room: ctx.params.room,
+					user: ctx.context.user,
+				});
+			},
+		},
+	);
+	const router = createRouter({ chat });
+
+	it("should respond with 426 to requests that aren't upgrades", async () => {
+		const response = await router.handler(new Request("http://localhost/chat/general"));
+		expect(response.status).toBe(426);
+		expect(response.headers.get("upgrade")).toBe("websocket");
+		expect(getWebSocketSession(response)).toBeUndefined();
+	});
+
+	it("should attach a session to upgrade requests", async () => {
+		const response = await router.handler(
+			new Request("http://localhost/chat/general", {
+				headers: {
+					...upgradeHeaders,
+					"x-user": "john",
+				},
+			}),
+		);
+		const session = getWebSocketSession(response)!;
+		expect(session).toBeDefined();
+
+		const peer = createPeer();
+		await session.open(peer);
+		await session.message(JSON.stringify({ text: "hello" }));
+		expect(peer.sent).toEqual([
+			{ text: "welcome", room: "general", user: "john" },
+			{ text: "hello", room: "general", user: "john" },
+		]);
+	});
+
+	it("should close the connection with 1007 on invalid messages", async () => {
+		const response = await router.handler(
+			new Request("http://localhost/chat/general", { headers: upgradeHeaders }),
+		);
+		const session = getWebSocketSession(response)!;
+		const peer = createPeer();
+		await session.open(peer);
+		await session.message(JSON.stringify({ text: 1 }));
+		expect(peer.closed?.code).toBe(1007);
+		expect(peer.closed?.reason).toContain("[message.text]");
+	});
+
+	it("should close the connection with 1011 when an outgoing message is invalid", async () => {
+		const response = await router.handler(
+			new Request("http://localhost/chat/general", { headers: upgradeHeaders }),
+		);
+		const session = getWebSocketSession(response)!;
+		const peer = createPeer();
+		await session.open(peer);
+		await session.message(JSON.stringify({ text: "invalid" }));
+		expect(peer.closed?.code).toBe(1011);
+	});
+
+	it("should call the close hook", async () => {
+		let details: { code: number; reason: string } | undefined;
+		const endpoint = createWebSocketEndpoint(
+			"/close",
+			{},
+			{
+				close: (_, d) => {
+					details = d;
+				},
+			},
+		);
+		const response = await endpoint({ headers: new Headers(upgradeHeaders), asResponse: true });
+		const session = getWebSocketSession(response)!;
+		await session.open(createPeer());
+		await session.close(1000, "bye");
+		expect(details).toEqual({ code: 1000, reason: "bye" });
+	});
+
+	it("should reject the upgrade when a middleware throws", async () => {
+		const guard = createMiddleware(async (ctx) => {
+			throw ctx.error("UNAUTHORIZED");
+		});
+		const endpoint = createWebSocketEndpoint("/guarded", { use: [guard] }, {});
+		const router = createRouter({ endpoint });
+		const response = await router.handler(
+			new Request("http://localhost/guarded", { headers: upgradeHeaders }),
+		);
+		expect(response.status).toBe(401);
+		expect(getWebSocketSession(response)).toBeUndefined();
+	});
+});
@@ -0,0 +1,222 @@
+import {
+	createEndpoint,
+	type EndpointBaseOptions,
+	type EndpointContext,
+	type StrictEndpoint,
+} from "./endpoint";
+import { ValidationError } from "./error";
+import type { StandardSchemaV1 } from "./standard-schema";
+import { runMessageValidation } from "./validator";
+
+export interface WebSocketEndpointOptions
+	extends Omit<EndpointBaseOptions, "response" | "responses" | "events" | "disableBody"> {
+	/**
+	 * Schema of the messages sent by the client
+	 *
+	 * Messages are parsed as JSON and validated against this schema before
+	 * they are passed to the `message` hook. Invalid messages close the
+	 * connection with `1007`.
+	 */
+	incoming?: StandardSchemaV1;
+	/**
+	 * Schema of the messages sent by the server through `ws.send`
+	 */
+	outgoing?: StandardSchemaV1;
+}
+
+type InferMessage<Schema> = Schema extends StandardSchemaV1
+	? StandardSchemaV1.InferOutput<Schema>
+	: any;
+
+type InferMessageInput<Schema> = Schema extends StandardSchemaV1
+	? StandardSchemaV1.InferInput<Schema>
+	: any;
+
+export interface WebSocketConnection<Outgoing = any> {
+	/**
+	 * Send a message to the client, serialized as JSON
+	 *
+	 * If the endpoint has an `outgoing` schema, the message will be validated
+	 * against it
+	 */
+	send: (message: Outgoing) => Promise<void>;
+	/**
+	 * Close the connection
+	 */
+	close: (code?: number, reason?: string) => void;
+}
+
+/**
+ * The transport a runtime adapter provides to a WebSocket session
+ */
+export interface WebSocketPeer {
+	send: (data: string | Uint8Array) => void;
+	close: (code?: number, reason?: string) => void;
+}
+
+/**
+ * A WebSocket connection accepted by an endpoint. Runtime adapters drive
+ * the session with the events of the underlying socket.
+ */
+export interface WebSocketSession {
+	open: (peer: WebSocketPeer) => Promise<void>;
+	message: (data: string | Uint8Array) => Promise<void>;
+	close: (code: number, reason: string) => Promise<void>;
+}
+
+type WebSocketContext<
+	Path extends string,
+	Options extends WebSocketEndpointOptions,
+> = EndpointContext<Path, Options & { method: "GET" }>;
+
+export interface WebSocketHooks<Path extends string, Options extends WebSocketEndpointOptions> {
+	/**
+	 * Called once the connection is established
+	 */
+	open?: (
+		ws: WebSocketConnection<InferMessageInput<Options["outgoing"]>>,
+		ctx: WebSocketContext<Path, Options>,
+	) => void | Promise<void>;
+	/**
+	 * Called for every message sent by the client
+	 */
+	message?: (
+		ws: WebSocketConnection<InferMessageInput<Options["outgoing"]>>,
+		message: InferMessage<Options["incoming"]>,
+		ctx: WebSocketContext<Path, Options>,
+	) => void | Promise<void>;
+	/**
+	 * Called when the connection is closed by either side
+	 */
+	close?: (
+		ws: WebSocketConnection<InferMessageInput<Options["outgoing"]>>,
+		details: { code: number; reason: string },
+		ctx: WebSocketContext<Path, Options>,
+	) => void | Promise<void>;
+}
+
+const kWebSocketSession = Symbol.for("better-call:websocket");
+
+/**
+ * Get the WebSocket session attached to a response returned by a WebSocket
+ * endpoint
+ */
+export function getWebSocketSession(response: Response): WebSocketSession | undefined {
+	return (response as any)[kWebSocketSession];
+}
+
+function createWebSocketSession(
+	hooks: WebSocketHooks<any, any>,
+	options: WebSocketEndpointOptions,
+	ctx: any,
+): WebSocketSession {
+	let connection: WebSocketConnection;
+	const run = async (fn: () => void | Promise<void>) => {
+		try {
+			await fn();
+		} catch {
+			connection.close(1011, "Internal Error");
+		}
+	};
+	return {
+		async open(peer) {
+			connection = {
+				send: async (message) => {
+					if (options.outgoing) {
+						const { data, error } = await runMessageValidation(
+							options.outgoing,
+							message,
+						);
+						if (error) {
+							throw new ValidationError(error.message, error.issues);
+						}
+						message = data;
+					}
+					peer.send(JSON.stringify(message));
+				},
+				close: (code, reason) => peer.close(code, reason),
+			};
+			await run(() => hooks.open?.(connection, ctx));
+		},
+		async message(data) {
+			let message: any = data;
+			if (typeof data === "string") {
+				try {
+					message = JSON.parse(data);
+				} catch {}
+			}
+			if (options.incoming) {
+				const { data, error } = await runMessageValidation(options.incoming, message);
+				if (error) {
+					connection.close(1007, error.message);
+					return;
+				}
+				message = data;
+			}
+			await run(() => hooks.message?.(connection, message, ctx));
+		},
+		async close(code, reason) {
+			try {
+				await hooks.close?.(connection, { code, reason }, ctx);
+			} catch {
+				// the connection is already closed
+			}
+		},
+	};
+}
+
+/**
+ * Create a WebSocket endpoint
+ *
+ * The endpoint is matched, validated and runs its middlewares like any
+ * other `GET` endpoint. Upgrade requests get a response carrying the
+ * WebSocket session that runtime adapters (like `toNodeHandler`) use to
+ * accept the connection. Other requests get `426 Upgrade Required`.
+ *
+ * @example
+ * ```ts
+ * const chat = createWebSocketEndpoint("/chat/:room", {
+ * 		incoming: z.object({ text: z.string() }),
+ * 		outgoing: z.object({ text: z.string(), room: z.string() }),
+ * 	}, {
+ * 		message: async (ws, message, ctx) => {
+ * 			await ws.send({ text: message.text, room: ctx.params.room });
+ * 		},
+ * 	})
+ * ```
+ */
+export function createWebSocketEndpoint<
+	Path extends string,
+	Options extends WebSocketEndpointOptions,
+>(
+	path: Path,
+	options: Options,
+	hooks: WebSocketHooks<Path, Options>,
+): StrictEndpoint<Path, Options & { method: "GET"; metadata: { scope: "http" } }, Response> {
+	return createEndpoint(
+		path,
+		{
+			...options,
+			method: "GET",
+			metadata: {
+				scope: "http",
+				...options.metadata,
+				websocket: true,
+			},
+		},
+		async (ctx) => {
+			if (ctx.getHeader("upgrade")?.toLowerCase() !== "websocket") {
+				ctx.setHeader("Upgrade", "websocket");
+				throw ctx.error("UPGRADE_REQUIRED", {
+					message: "Expected a WebSocket upgrade request",
+				});
+			}
+			const response = new Response(null, {
+				status: 426,
+				statusText: "Upgrade Required",
+			});
+			(response as any)[kWebSocketSession] = createWebSocketSession(hooks, options, ctx);
+			return response;
+		},
+	) as any;
+}